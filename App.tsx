@@ -1,43 +1,230 @@
-import React, { useState, Suspense } from 'react';
+import React, { useState, useEffect, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { Loader } from '@react-three/drei';
+import { Loader, PerformanceMonitor } from '@react-three/drei';
 import { Experience } from './components/Experience';
 import { Overlay } from './components/Overlay';
-import { TreeState } from './types';
+import { Providers } from './components/Providers';
+import { TuningPanel } from './components/TuningPanel';
+import { TreeSpec, SceneConfig } from './types';
+import { getUrlSeed } from './utils/random';
+import { DEFAULT_TREE_SPEC } from './utils/math';
+import { getUrlProfile } from './utils/profiles';
+import { DEFAULT_FORMATION } from './utils/formations';
+import { registerTextFormation } from './utils/glyphs';
+import { createTransitionController } from './utils/transition';
+import { DEFAULT_SCENE_CONFIG, getUrlSceneConfig, loadSceneConfig } from './utils/sceneConfig';
+import { TransitionContext, useTransitionTarget } from './hooks/useTransition';
+import { createThemeController, getUrlTheme, applyThemeToDocument } from './utils/themes';
+import { ThemeContext } from './hooks/useTheme';
+import { createCameraDirector } from './utils/director';
+import { DirectorContext } from './hooks/useDirector';
+import { createSnapshotController } from './utils/snapshot';
+import { SnapshotContext, RecorderContext, useRecorderState } from './hooks/useSnapshot';
+import { createRecorder } from './utils/recording';
+import { createMusicController } from './utils/music';
+import { MusicContext } from './hooks/useMusic';
+import { createSfxController } from './utils/sfx';
+import { SfxContext } from './hooks/useSfx';
+import { createFireworksController } from './utils/fireworks';
+import { FireworksContext } from './hooks/useFireworks';
+import { createCountdown, getUrlClock, getUrlCountdown } from './utils/countdown';
+import { CountdownContext } from './hooks/useCountdown';
+import { createAdventCalendar, DEFAULT_ADVENT_ENTRIES } from './utils/advent';
+import { AdventContext } from './hooks/useAdvent';
+import {
+  QualityMode,
+  QualityTier,
+  DEFAULT_QUALITY_TIER,
+  MAX_AUTO_QUALITY_TIER,
+  getQualitySettings,
+  stepQualityTier,
+  loadQualityMode,
+  saveQualityMode
+} from './utils/quality';
 
 function App() {
-  const [treeState, setTreeState] = useState<TreeState>(TreeState.TREE_SHAPE);
+  // One controller owns every transition; the scene and UI both follow it
+  const [transition] = useState(() => createTransitionController(DEFAULT_FORMATION));
+  const formation = useTransitionTarget(transition);
+  // Seed comes from ?seed= so a specific tree can be shared and reproduced
+  const [seed] = useState(getUrlSeed);
+  // Silhouette comes from ?shape= (cone, fir, spruce, topiary) or ?curve=
+  const [spec] = useState<TreeSpec>(() => ({ ...DEFAULT_TREE_SPEC, taper: getUrlProfile() }));
+  // Scene contents come from scenes/classic.json, or a config given with ?scene=<url>
+  const [config, setConfig] = useState<SceneConfig>(DEFAULT_SCENE_CONFIG);
+  const [configError, setConfigError] = useState<string | null>(null);
+  // Colors for the scene and UI, cross-faded on change; ?theme= picks the first one
+  const [theme] = useState(() => createThemeController(getUrlTheme(), DEFAULT_SCENE_CONFIG));
+  // Camera shots and the tour; the scene plays them, the UI asks for them
+  const [director] = useState(createCameraDirector);
+  // Save Image: the scene attaches its renderer, the Overlay captures
+  const [snapshot] = useState(createSnapshotController);
+  // Frame-by-frame video / GIF export on a virtual clock
+  const [recorder] = useState(() => createRecorder(snapshot));
+  const { recording } = useRecorderState(recorder);
+  // Optional soundtrack the tree dances to
+  const [music] = useState(createMusicController);
+  // Synthesized effects for releasing, assembling and the cookie; mute persists
+  const [sfx] = useState(createSfxController);
+  // Fireworks for celebrations; the scene draws them, anything can launch
+  const [fireworks] = useState(() => createFireworksController(seed));
+  // ?now= fakes the date for the countdown and the advent calendar alike
+  const [clock] = useState(getUrlClock);
+  // Countdown to Christmas
+  const [countdown] = useState(() => createCountdown(transition, clock));
+  // Advent ornaments: one unlocks each day of December; opened ones are remembered
+  const [advent] = useState(() => createAdventCalendar(DEFAULT_ADVENT_ENTRIES, clock));
+
+  useEffect(() => theme.setConfig(config), [theme, config]);
+
+  // Quality follows measured frame time unless the user forced a tier
+  const [qualityMode, setQualityModeState] = useState<QualityMode>(loadQualityMode);
+  const [autoTier, setAutoTier] = useState<QualityTier>(DEFAULT_QUALITY_TIER);
+  const qualityTier = qualityMode === 'auto' ? autoTier : qualityMode;
+  const quality = getQualitySettings(qualityTier);
+
+  const setQualityMode = (mode: QualityMode) => {
+    saveQualityMode(mode);
+    setQualityModeState(mode);
+  };
+
+  // Transition timings come from the config too
+  useEffect(() => {
+    const { options } = transition;
+    const { gatherDuration, releaseDuration, burstStrength, burstDuration } = config.transition;
+    options.gather = { ...options.gather, duration: gatherDuration };
+    options.release = { ...options.release, duration: releaseDuration };
+    options.burstStrength = burstStrength;
+    options.burstDuration = burstDuration;
+  }, [transition, config]);
+
+  // Keep the Tailwind accent / background variables in step with the fade
+  useEffect(() => {
+    applyThemeToDocument(theme.palette);
+    return theme.onPaletteChange(applyThemeToDocument);
+  }, [theme]);
+
+  useEffect(() => {
+    const url = getUrlSceneConfig();
+    if (!url) return;
+    loadSceneConfig(url)
+      .then(setConfig)
+      .catch((err: Error) => {
+        // Keep the bundled tree, but tell whoever wrote the config what's wrong
+        setConfigError(err.message);
+      });
+  }, []);
+
+  // ?countdown=2026-12-25T00:00&tz=Europe/London starts counting on load
+  useEffect(() => {
+    const target = getUrlCountdown();
+    if (!target) return;
+    try {
+      countdown.setTarget(target);
+      countdown.start();
+    } catch (err) {
+      setConfigError((err as Error).message);
+    }
+  }, [countdown]);
+
+  // Every recording starts from an empty sky and the same random stream
+  useEffect(() => {
+    let wasRecording = recorder.state.recording;
+    return recorder.onChange(({ recording: isRecording }) => {
+      if (isRecording && !wasRecording) fireworks.reset();
+      wasRecording = isRecording;
+    });
+  }, [recorder, fireworks]);
+
+  // Opening an advent day plays its surprise, if it has one
+  useEffect(() => advent.onOpen(({ surprise }) => {
+    switch (surprise) {
+      case 'fireworks':
+        fireworks.celebrate();
+        break;
+      case 'carol':
+        void music.playCarol();
+        break;
+      case 'heart':
+        transition.start('heart');
+        break;
+    }
+  }), [advent, fireworks, music, transition]);
+
+  // ?text=HAPPY%202027 opens straight onto a spelled-out message
+  useEffect(() => {
+    const text = new URLSearchParams(window.location.search).get('text');
+    if (!text) return;
+    registerTextFormation(text)
+      .then(transition.start)
+      .catch((err: Error) => setConfigError(err.message));
+  }, [transition]);
 
   return (
-    <div className="w-full h-full relative bg-arix-dark">
-      {/* 3D Scene */}
-      <Canvas
-        shadows
-        // Moved camera to z=33
-        camera={{ position: [0, 0, 33], fov: 35 }}
-        gl={{ 
-          antialias: false, 
-          stencil: false, 
-          depth: true 
-        }}
-        dpr={[1, 2]} 
-      >
-        <Suspense fallback={null}>
-          <Experience treeState={treeState} />
-        </Suspense>
-      </Canvas>
-
-      {/* Loading Indicator */}
-      <Loader 
-        containerStyles={{ background: '#021a0f' }} 
-        innerStyles={{ background: '#333', width: '200px' }} 
-        barStyles={{ background: '#D4AF37', height: '4px' }}
-        dataStyles={{ color: '#D4AF37', fontFamily: 'serif' }}
-      />
-
-      {/* UI Overlay */}
-      <Overlay treeState={treeState} setTreeState={setTreeState} />
-    </div>
+    <Providers
+      providers={[
+        <TransitionContext.Provider value={transition} />,
+        <ThemeContext.Provider value={theme} />,
+        <DirectorContext.Provider value={director} />,
+        <SnapshotContext.Provider value={snapshot} />,
+        <RecorderContext.Provider value={recorder} />,
+        <MusicContext.Provider value={music} />,
+        <SfxContext.Provider value={sfx} />,
+        <FireworksContext.Provider value={fireworks} />,
+        <CountdownContext.Provider value={countdown} />,
+        <AdventContext.Provider value={advent} />
+      ]}
+    >
+      <div className="w-full h-full relative bg-arix-dark">
+        {/* 3D Scene */}
+        <Canvas
+          shadows={quality.shadows}
+          // Moved camera to z=33
+          camera={{ position: [0, 0, 33], fov: 35 }}
+          gl={{ 
+            antialias: false, 
+            stencil: false, 
+            depth: true 
+          }}
+          dpr={quality.dpr} 
+        >
+          {/* Recording runs slower than real time on purpose; don't let that lower the tier */}
+          {qualityMode === 'auto' && !recording && (
+            <PerformanceMonitor
+              onDecline={() => setAutoTier((t) => stepQualityTier(t, -1))}
+              onIncline={() => setAutoTier((t) => stepQualityTier(t, 1, MAX_AUTO_QUALITY_TIER))}
+              // Kept flip-flopping between two tiers: settle on the lower one
+              flipflops={3}
+              onFallback={() => setAutoTier((t) => stepQualityTier(t, -1))}
+            />
+          )}
+          <Suspense fallback={null}>
+            <Experience seed={seed} spec={spec} config={config} quality={quality} />
+          </Suspense>
+        </Canvas>
+
+        {/* Loading Indicator */}
+        <Loader 
+          containerStyles={{ background: 'rgb(var(--arix-dark))' }} 
+          innerStyles={{ background: '#333', width: '200px' }} 
+          barStyles={{ background: 'rgb(var(--arix-gold))', height: '4px' }}
+          dataStyles={{ color: 'rgb(var(--arix-gold))', fontFamily: 'serif' }}
+        />
+
+        {/* UI Overlay */}
+        <Overlay 
+          formation={formation} 
+          setFormation={transition.start} 
+          configError={configError}
+          qualityMode={qualityMode}
+          qualityTier={qualityTier}
+          setQualityMode={setQualityMode}
+        />
+
+        {/* Live config editing (toggle with TUNE or `) */}
+        <TuningPanel config={config} setConfig={setConfig} />
+      </div>
+    </Providers>
   );
 }
 
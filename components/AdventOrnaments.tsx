@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeSpec } from '../types';
+import { ADVENT_DAYS } from '../utils/advent';
+import { useFormationMorph, getMorphPoint } from '../hooks/useFormationMorph';
+import { useAdvent, useAdventState } from '../hooks/useAdvent';
+import { useTheme } from '../hooks/useTheme';
+import { useHoverCursor } from '../hooks/useHoverCursor';
+
+interface Props {
+  seed: number;
+  spec: TreeSpec;
+}
+
+const RADIUS = 0.38;
+const FROST = new THREE.Color('#DCEBF5');
+
+// Day number printed twice around the bauble, so one side always faces out.
+// Dark ink on white: the material color tints the rest.
+const createNumberTexture = (day: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 128;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#2a1a08';
+  ctx.font = 'bold 48px serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(day), 64, 66);
+  ctx.fillText(String(day), 192, 66);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+// The 24 advent baubles, hung along the tree like the other ornaments.
+// Locked days are dim and frosted; today's glow until they're opened.
+export const AdventOrnaments: React.FC<Props> = ({ seed, spec }) => {
+  const advent = useAdvent();
+  const { unlocked, opened } = useAdventState(advent);
+  const theme = useTheme();
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  useHoverCursor(hovered !== null);
+
+  const morph = useFormationMorph({ layer: 'ornament', count: ADVENT_DAYS, seed, spec, range: [0.12, 0.85] });
+
+  const textures = useMemo(() => Array.from({ length: ADVENT_DAYS }, (_, i) => createNumberTexture(i + 1)), []);
+  useEffect(() => () => textures.forEach((texture) => texture.dispose()), [textures]);
+
+  const groupRefs = useRef<(THREE.Group | null)[]>([]);
+  const materialRefs = useRef<(THREE.MeshStandardMaterial | null)[]>([]);
+  // Locked baubles wobble when clicked: 1 -> 0
+  const shakes = useMemo(() => new Float32Array(ADVENT_DAYS), []);
+  const point = useMemo(() => new THREE.Vector3(), []);
+  const color = useMemo(() => new THREE.Color(), []);
+
+  const handleClick = (e: ThreeEvent<MouseEvent>, day: number) => {
+    e.stopPropagation();
+    if (!advent.open(day)) shakes[day - 1] = 1;
+  };
+
+  useFrame((state, delta) => {
+    const t = state.clock.elapsedTime;
+    const gather = morph.gather;
+    const colors = theme.palette.ornaments;
+
+    for (let i = 0; i < ADVENT_DAYS; i++) {
+      const group = groupRefs.current[i];
+      const material = materialRefs.current[i];
+      if (!group || !material) continue;
+      const day = i + 1;
+
+      // Pushed out past the foliage on the tree so they hang in plain sight
+      getMorphPoint(morph, i, point);
+      const out = 1 + 0.08 * gather;
+      group.position.set(point.x * out, point.y + Math.sin(t * 1.3 + i) * 0.04, point.z * out);
+
+      shakes[i] = Math.max(0, shakes[i] - delta * 2);
+      group.rotation.set(0, t * 0.2 + i, Math.sin(t * 40) * shakes[i] * 0.35);
+      group.scale.setScalar((0.6 + 0.4 * gather) * (hovered === i ? 1.15 : 1));
+
+      // Locked: frosted glass. Unlocked: palette colors, pulsing until opened.
+      const base = colors.length > 0 ? colors[i % colors.length] : FROST;
+      if (day > unlocked) {
+        material.color.copy(FROST);
+        material.emissive.copy(FROST);
+        material.emissiveIntensity = 0.03;
+        material.roughness = 0.95;
+        material.metalness = 0;
+        material.opacity = 0.55;
+      } else {
+        const fresh = !opened.includes(day);
+        material.color.copy(color.copy(base).lerp(FROST, 0.15));
+        material.emissive.copy(base);
+        material.emissiveIntensity = fresh ? 0.5 + 0.35 * Math.sin(t * 3 + i) : 0.12;
+        material.roughness = 0.25;
+        material.metalness = 0.6;
+        material.opacity = 1;
+      }
+    }
+  });
+
+  return (
+    <group>
+      {textures.map((texture, i) => (
+        <group
+          key={i}
+          ref={(el) => { groupRefs.current[i] = el; }}
+          onClick={(e) => handleClick(e, i + 1)}
+          onPointerOver={(e) => { e.stopPropagation(); setHovered(i); }}
+          onPointerOut={() => setHovered((h) => (h === i ? null : h))}
+        >
+          <mesh castShadow>
+            <sphereGeometry args={[RADIUS, 24, 16]} />
+            <meshStandardMaterial
+              ref={(el) => { materialRefs.current[i] = el; }}
+              map={texture}
+              transparent={true}
+            />
+          </mesh>
+          {/* Cap and hook */}
+          <mesh position={[0, RADIUS + 0.04, 0]}>
+            <cylinderGeometry args={[0.09, 0.09, 0.1, 12]} />
+            <meshStandardMaterial color="#D4AF37" metalness={1} roughness={0.3} />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+};
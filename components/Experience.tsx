@@ -1,6 +1,6 @@
-import React, { useMemo, useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { OrbitControls, Environment, ContactShadows } from '@react-three/drei';
-import { useThree, useFrame } from '@react-three/fiber';
+import { useThree, useFrame, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Foliage } from './Foliage';
 import { Ornaments } from './Ornaments';
@@ -8,72 +8,167 @@ import { PostProcessing } from './PostProcessing';
 import { StarTop } from './StarTop';
 import { MagicSpiral } from './MagicSpiral';
 import { GingerbreadMan } from './GingerbreadMan';
-import { TreeState } from '../types';
+import { AdventOrnaments } from './AdventOrnaments';
+import { Snowfall } from './Snowfall';
+import { Fireworks } from './Fireworks';
+import { TreeState, TreeSpec, SceneConfig, LightConfig, OrnamentType } from '../types';
+import { getTreeState, getFormation, registerExplosionFormation } from '../utils/formations';
+import { DEFAULT_TREE_SPEC } from '../utils/math';
+import { DEFAULT_SEED, deriveSeed } from '../utils/random';
+import { DEFAULT_SCENE_CONFIG } from '../utils/sceneConfig';
+import { QualitySettings, DEFAULT_QUALITY_TIER, getQualitySettings, scaleCount } from '../utils/quality';
+import { useTransition, useTransitionTarget } from '../hooks/useTransition';
+import { useTheme } from '../hooks/useTheme';
+import { useDirector } from '../hooks/useDirector';
+import { useMusic } from '../hooks/useMusic';
+import { useSfx } from '../hooks/useSfx';
+import { useCountdown } from '../hooks/useCountdown';
+import { useAdvent } from '../hooks/useAdvent';
+
+// Where the tree stands in the world (camera shots frame it from here)
+const TREE_ORIGIN = new THREE.Vector3(0, -1, 0);
 
 interface ExperienceProps {
-  treeState: TreeState;
+  // Drives every random layout in the scene; same seed, same tree
+  seed?: number;
+  // Size and silhouette shared by every tree layer
+  spec?: TreeSpec;
+  // Counts, colors, lights and effects; see scenes/classic.json
+  config?: SceneConfig;
+  // Counts, shadows and effects for the device's performance tier
+  quality?: QualitySettings;
+}
+
+// One configured light; its color follows the theme palette at `index`
+interface SceneLightProps {
+  light: LightConfig;
+  index: number;
+  quality: QualitySettings;
 }
 
-export const Experience: React.FC<ExperienceProps> = ({ treeState }) => {
+const SceneLight: React.FC<SceneLightProps> = ({ light, index, quality }) => {
+  const ref = useRef<THREE.Light>(null);
+  const theme = useTheme();
+
+  useFrame(() => {
+    const color = theme.palette.lights[index];
+    if (ref.current && color) ref.current.color.copy(color);
+  });
+
+  switch (light.type) {
+    case 'ambient':
+      return <ambientLight ref={ref} intensity={light.intensity} color={light.color} />;
+    case 'point':
+      return <pointLight ref={ref} position={light.position} intensity={light.intensity} color={light.color} />;
+    case 'spot':
+      return (
+        <spotLight 
+          ref={ref}
+          position={light.position} 
+          angle={light.angle} 
+          penumbra={light.penumbra} 
+          intensity={light.intensity} 
+          color={light.color} 
+          castShadow={light.castShadow && quality.shadows} 
+          shadow-mapSize={[quality.shadowMapSize, quality.shadowMapSize]}
+        />
+      );
+  }
+};
+
+export const Experience: React.FC<ExperienceProps> = ({ 
+  seed = DEFAULT_SEED, 
+  spec = DEFAULT_TREE_SPEC,
+  config = DEFAULT_SCENE_CONFIG,
+  quality = getQualitySettings(DEFAULT_QUALITY_TIER)
+}) => {
+  // Transitions are driven by the controller provided above the Canvas
+  const transition = useTransition();
+  const theme = useTheme();
+  const music = useMusic();
+  const sfx = useSfx();
+  const countdown = useCountdown();
+  const advent = useAdvent();
+  const treeState = getTreeState(useTransitionTarget(transition));
+
   // Shared Geometries
   const boxGeo = useMemo(() => new THREE.BoxGeometry(1, 1, 1), []);
   const sphereGeo = useMemo(() => new THREE.SphereGeometry(1, 16, 16), []); 
   const diamondGeo = useMemo(() => new THREE.IcosahedronGeometry(1, 0), []);
+  const geometries: Record<OrnamentType, THREE.BufferGeometry> = { box: boxGeo, sphere: sphereGeo, diamond: diamondGeo };
+
+  // Where the tree stands: shadows and settled snow sit here
+  const groundY = TREE_ORIGIN.y - spec.height / 2;
 
   const controlsRef = useRef<any>(null);
+  // The star's core, for the god rays; set once StarTop mounts it
+  const [sun, setSun] = useState<THREE.Mesh | null>(null);
   const { camera } = useThree();
 
-  // Handle Rotation Burst on Release
-  useEffect(() => {
+  // Advance the shared transition, theme fade and music levels before any layer reads them this frame
+  useFrame((state, delta) => {
+    countdown.update(); // May hold or finish the transition, so first
+    advent.update(); // Unlocks the next day at midnight
+    transition.update(delta);
+    theme.update(delta);
+    music.update(delta);
+    sfx.update(state.camera); // Sound effects are heard from the camera
+
+    // Rotation burst on release: 2.0 feels energetic but not dizzying,
+    // then restore to the slow drift. The controls step a fixed angle per
+    // frame (tuned for 60fps), so scale by delta to keep it in real time.
     if (controlsRef.current) {
-      if (treeState === TreeState.SCATTERED) {
-        // Burst speed: 2.0 (feels energetic but not dizzying)
-        controlsRef.current.autoRotateSpeed = 2.0;
-        
-        // Duration: 3 seconds (synced with ornaments)
-        const timer = setTimeout(() => {
-          if (controlsRef.current) {
-            controlsRef.current.autoRotateSpeed = 0.3; // Restore to slow drift
-          }
-        }, 3000);
-
-        return () => clearTimeout(timer);
-      } else {
-        // When assembling, keep it slow
-        controlsRef.current.autoRotateSpeed = 0.3;
-      }
+      controlsRef.current.autoRotateSpeed = (transition.isBursting ? 2.0 : 0.3) * delta * 60;
+    }
+  }, -1);
+
+  // Double-clicking the assembled tree blows it apart from that point
+  const handleTreeDoubleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (getFormation(transition.to).released) return;
+    e.stopPropagation();
+    // The hit volume sits at the tree's origin, so its local space is tree space
+    const origin = e.eventObject.worldToLocal(e.point.clone());
+    transition.start(registerExplosionFormation(origin));
+  };
+
+  // State changes fly the camera in / out; the director owns the camera
+  // until its shot ends or the user grabs it
+  const director = useDirector();
+  const shotFrame = useMemo(() => ({ position: new THREE.Vector3(), target: new THREE.Vector3() }), []);
+  const shotContext = useMemo(() => ({
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    origin: TREE_ORIGIN,
+    spec,
+    camera: config.camera
+  }), [spec, config.camera]);
+
+  const previousState = useRef(treeState);
+  useEffect(() => {
+    if (treeState === previousState.current) return;
+    previousState.current = treeState;
+    if (director.state.mode === 'follow') {
+      director.play(treeState === TreeState.TREE_SHAPE ? 'assemble' : 'release');
     }
-  }, [treeState]);
+  }, [director, treeState]);
 
-  // Handle Camera Zoom / Fly-in Effect
   useFrame((state, delta) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
     // Clamp delta to prevent huge jumps if tab was inactive
     const safeDelta = Math.min(delta, 0.1);
-    
-    const isTree = treeState === TreeState.TREE_SHAPE;
-    
-    // Target Distance: 
-    // Tree Shape = 33 (Requested adjustment)
-    // Scattered = 5 (Super close, "face-to-face" / immersive inside the cloud)
-    const targetDist = isTree ? 33 : 5;
-
-    // Smoothly interpolate the camera's distance from the center [0,0,0]
-    // We modify the length of the position vector to preserve the user's rotation angle
-    const currentLen = camera.position.length();
-    
-    // Use a slightly different damper for smooth zoom
-    const diff = targetDist - currentLen;
-    // Speed 2.5 provides a satisfying "whoosh" fly-in
-    const move = diff * safeDelta * 2.5; 
-    
-    // Apply if significant to avoid infinite micro-updates
-    if (Math.abs(diff) > 0.1) {
-       const newLen = currentLen + move;
-       // Safety check to avoid setting invalid length
-       if (!isNaN(newLen) && newLen > 0.1) {
-         camera.position.setLength(newLen);
-       }
-    }
+
+    shotContext.position.copy(camera.position);
+    shotContext.target.copy(controls.target);
+    const directing = director.update(safeDelta, shotContext, shotFrame);
+    // Auto-rotate would fight the shot; resume the slow drift once it ends
+    controls.autoRotate = !director.isPlaying;
+    if (!directing) return;
+
+    camera.position.copy(shotFrame.position);
+    controls.target.copy(shotFrame.target);
+    // Controls already updated this frame, so aim the camera here
+    camera.lookAt(shotFrame.target);
   });
 
   return (
@@ -87,146 +182,80 @@ export const Experience: React.FC<ExperienceProps> = ({ treeState }) => {
         maxDistance={50}
         autoRotate={true}
         autoRotateSpeed={0.3} // Default slow speed
+        onStart={director.stop} // Any drag or zoom hands the camera back to the user
       />
 
       {/* Luxury Cinematic Lighting */}
-      <Environment preset="city" />
-      <ambientLight intensity={0.4} color="#001100" />
-      <spotLight 
-        position={[10, 20, 10]} 
-        angle={0.3} 
-        penumbra={1} 
-        intensity={150} 
-        color="#fff5cc" 
-        castShadow 
-      />
-      <pointLight position={[-10, 5, -10]} intensity={50} color="#0B3E25" />
+      <Environment preset={config.environment} />
+      {config.lights.map((light, i) => (
+        <SceneLight key={i} light={light} index={i} quality={quality} />
+      ))}
 
       {/* The Core Tree Elements */}
-      <group position={[0, -1, 0]}>
+      <group position={TREE_ORIGIN}>
+
+        {/* Invisible hit volume for double-click explosions */}
+        <mesh visible={false} onDoubleClick={handleTreeDoubleClick}>
+          <coneGeometry args={[spec.baseRadius, spec.height, 24]} />
+        </mesh>
         
         {/* The Glowing Top Star */}
-        <StarTop treeState={treeState} />
+        <StarTop seed={deriveSeed(seed, 'star')} spec={spec} config={config.star} onCore={setSun} />
 
         {/* The Needles/Foliage */}
-        <Foliage count={6000} treeState={treeState} />
+        <Foliage count={scaleCount(config.foliage.count, quality)} seed={deriveSeed(seed, 'foliage')} spec={spec} />
 
         {/* The White Glowing Magic Spiral */}
-        <MagicSpiral treeState={treeState} />
+        <MagicSpiral seed={deriveSeed(seed, 'spiral')} spec={spec} count={scaleCount(config.spiral.count, quality)} />
 
         {/* The Hidden Gingerbread Man Surprise */}
-        <GingerbreadMan treeState={treeState} />
-
-        {/* --- REFINED ORNAMENTS --- */}
-
-        {/* 1. Deep Red Metallic Boxes */}
-        <Ornaments 
-          count={60} 
-          type="box" 
-          color="#8B0000" 
-          treeState={treeState}
-          geometry={boxGeo}
-          metalness={0.9}
-          roughness={0.15}
-          scaleFactor={0.8} 
-        />
-
-        {/* 2. Emerald Boxes */}
-        <Ornaments 
-          count={80} 
-          type="box" 
-          color="#0B3E25" 
-          treeState={treeState}
-          geometry={boxGeo}
-          metalness={0.8}
-          roughness={0.2}
-          scaleFactor={0.7} 
-        />
-
-        {/* 3. Gold Spheres */}
-        <Ornaments 
-          count={150} 
-          type="sphere" 
-          color="#FFD700" 
-          treeState={treeState}
-          geometry={sphereGeo}
-          metalness={1.0}
-          roughness={0.1}
-          scaleFactor={0.5} 
-        />
-
-        {/* 4. Champagne Spheres */}
-        <Ornaments 
-          count={50} 
-          type="sphere" 
-          color="#F5E6C8" 
-          treeState={treeState}
-          geometry={sphereGeo}
-          metalness={0.9}
-          roughness={0.15}
-          scaleFactor={0.9} 
-        />
-
-        {/* 5. Diamond Sparkles */}
-        <Ornaments 
-          count={100} 
-          type="diamond" 
-          color="#FFFFE0" 
-          treeState={treeState}
-          geometry={diamondGeo}
-          scaleFactor={0.4} 
-        />
-
-        {/* --- BOTTOM FILLERS --- */}
-        <Ornaments 
-          count={30} 
-          type="box" 
-          color="#A00000" 
-          treeState={treeState}
-          geometry={boxGeo}
-          metalness={0.95}
-          roughness={0.2}
-          scaleFactor={0.9}
-          range={[0, 0.45]} 
-        />
+        <GingerbreadMan seed={deriveSeed(seed, 'gingerbread')} spec={spec} />
 
-        <Ornaments 
-          count={40} 
-          type="sphere" 
-          color="#D4AF37" 
-          treeState={treeState}
-          geometry={sphereGeo}
-          metalness={1.0}
-          roughness={0.15}
-          scaleFactor={0.6}
-          range={[0, 0.4]} 
-        />
+        {/* Advent calendar: one ornament per day of December, click to open */}
+        <AdventOrnaments seed={deriveSeed(seed, 'advent')} spec={spec} />
 
-        {/* --- BASE ANCHOR --- */}
-        <Ornaments 
-          count={15} 
-          type="box" 
-          color="#B8860B" 
-          treeState={treeState}
-          geometry={boxGeo}
-          metalness={0.9}
-          roughness={0.3} 
-          scaleFactor={1.2} 
-          range={[0, 0.15]} 
-        />
+        {/* Ornament groups, in config order (seeds follow the order too) */}
+        {config.ornaments.map((group, i) => (
+          <Ornaments
+            key={i}
+            count={scaleCount(group.count, quality)}
+            type={group.type}
+            color={group.color}
+            seed={deriveSeed(seed, `ornaments-${i + 1}`)}
+            spec={spec}
+            geometry={geometries[group.type]}
+            metalness={group.metalness}
+            roughness={group.roughness}
+            scaleFactor={group.scale}
+            range={group.range}
+            paletteIndex={i}
+          />
+        ))}
         
       </group>
 
+      {/* Snow falls in world space and settles on the shadow plane at the tree's foot */}
+      <Snowfall
+        count={scaleCount(config.snow.count, quality)}
+        seed={deriveSeed(seed, 'snow')}
+        config={config.snow}
+        ground={groundY}
+        height={spec.height + 10}
+      />
+
+      <Fireworks ground={groundY} />
+
       <ContactShadows 
+        position={[0, groundY, 0]}
         opacity={0.6} 
         scale={40} 
         blur={2} 
         far={10} 
-        resolution={256} 
+        resolution={quality.contactShadowResolution} 
         color="#000000" 
       />
       
-      <PostProcessing treeState={treeState} />
+      <PostProcessing treeState={treeState} config={config.postProcessing} camera={config.camera} sun={sun} quality={quality} />
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { getFormation } from '../utils/formations';
+import { FireworksFrame } from '../utils/fireworks';
+import { useFireworks } from '../hooks/useFireworks';
+import { useTransition } from '../hooks/useTransition';
+import { useTheme } from '../hooks/useTheme';
+import { useCountdown } from '../hooks/useCountdown';
+
+const vertexShader = `
+  uniform float uTime;
+
+  attribute vec3 aColor;
+  attribute float aSize;
+  attribute float aFade; // 1 -> 0 over the spark's life, 0 = free slot
+
+  varying vec3 vColor;
+  varying float vFade;
+  varying float vFlicker;
+
+  void main() {
+    vColor = aColor;
+    vFade = aFade;
+    // Changes ~20 times a second, differently per spark
+    vFlicker = fract(sin(dot(position.xz + floor(uTime * 20.0), vec2(12.9898, 78.233))) * 43758.5453);
+
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    // Free slots collapse to nothing; sparks shrink as they fade
+    gl_PointSize = aFade > 0.0 ? aSize * (0.4 + 0.6 * aFade) * (250.0 / -mvPosition.z) : 0.0;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = `
+  varying vec3 vColor;
+  varying float vFade;
+  varying float vFlicker;
+
+  void main() {
+    float r = length(gl_PointCoord.xy - vec2(0.5));
+    if (r > 0.5) discard;
+    float glow = pow(1.0 - r * 2.0, 1.5);
+
+    // Dying sparks crackle on and off
+    float twinkle = mix(step(0.45, vFlicker), 1.0, smoothstep(0.15, 0.35, vFade));
+
+    // HDR while fresh so Bloom picks them up, dimming to nothing
+    gl_FragColor = vec4(vColor * (1.5 + 3.0 * vFade), glow * min(1.0, vFade * 3.0) * twinkle);
+  }
+`;
+
+interface FireworksProps {
+  ground: number; // World y rockets launch from
+}
+
+// Draws the fireworks pool, and launches on double-clicks in the sky,
+// whenever the tree finishes assembling and when the countdown hits zero
+export const Fireworks: React.FC<FireworksProps> = ({ ground }) => {
+  const pointsRef = useRef<THREE.Points>(null);
+  const fireworks = useFireworks();
+  const transition = useTransition();
+  const theme = useTheme();
+  const countdown = useCountdown();
+  const { particles } = fireworks;
+
+  useEffect(() => transition.onTransitionEnd(({ from, to }) => {
+    // Not for the first load's assembly (the only transition nobody started)
+    if (transition.version === 0) return;
+    if (getFormation(from).released && !getFormation(to).released) fireworks.celebrate();
+  }), [transition, fireworks]);
+
+  // The countdown's zero gets its own volley, before the tree lands
+  useEffect(() => countdown.onFinale(fireworks.celebrate), [countdown, fireworks]);
+
+  const handleSkyDoubleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    // Burst about as far away as the tree, if that's above the treeline
+    const at = e.ray.at(e.camera.position.length(), new THREE.Vector3());
+    if (at.y < ground + 8) return;
+    fireworks.launch({ at });
+  };
+
+  const uniforms = useMemo(() => ({ uTime: { value: 0 } }), []);
+  const frame = useMemo<FireworksFrame>(() => ({ camera: new THREE.Camera(), colors: [], ground: 0 }), []);
+  const appliedVersion = useRef(-1);
+  const wasActive = useRef(false);
+
+  useFrame((state, delta) => {
+    if (!pointsRef.current) return;
+    frame.camera = state.camera;
+    frame.colors = theme.palette.ornaments;
+    frame.ground = ground;
+    fireworks.update(Math.min(delta, 0.1), frame);
+    uniforms.uTime.value = state.clock.elapsedTime;
+
+    // Upload only while something is flying, plus once more to clear the last sparks
+    const active = fireworks.isActive;
+    if (!active && !wasActive.current) return;
+    wasActive.current = active;
+    const { attributes } = pointsRef.current.geometry;
+    attributes.position.needsUpdate = true;
+    attributes.aFade.needsUpdate = true;
+    if (appliedVersion.current !== particles.version) {
+      attributes.aColor.needsUpdate = true;
+      attributes.aSize.needsUpdate = true;
+      appliedVersion.current = particles.version;
+    }
+  });
+
+  return (
+    <>
+      {/* Invisible dome around the scene: double-click the sky to launch */}
+      <mesh visible={false} onDoubleClick={handleSkyDoubleClick}>
+        <sphereGeometry args={[90, 16, 8]} />
+        <meshBasicMaterial side={THREE.BackSide} />
+      </mesh>
+
+      {/* Sparks are simulated on the CPU, so the bounds never match */}
+      <points ref={pointsRef} frustumCulled={false}>
+        <bufferGeometry>
+          <bufferAttribute
+            attach="attributes-position"
+            count={particles.count}
+            array={particles.positions}
+            itemSize={3}
+          />
+          <bufferAttribute
+            attach="attributes-aColor"
+            count={particles.count}
+            array={particles.colors}
+            itemSize={3}
+          />
+          <bufferAttribute
+            attach="attributes-aSize"
+            count={particles.count}
+            array={particles.sizes}
+            itemSize={1}
+          />
+          <bufferAttribute
+            attach="attributes-aFade"
+            count={particles.count}
+            array={particles.fades}
+            itemSize={1}
+          />
+        </bufferGeometry>
+        <shaderMaterial
+          vertexShader={vertexShader}
+          fragmentShader={fragmentShader}
+          uniforms={uniforms}
+          transparent={true}
+          depthWrite={false}
+          blending={THREE.AdditiveBlending}
+          toneMapped={false}
+        />
+      </points>
+    </>
+  );
+};
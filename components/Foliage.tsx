@@ -1,34 +1,94 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { getTreeSpiralPoint, getRandomSpherePoint } from '../utils/math';
-import { TreeState } from '../types';
-import { damp } from 'maath/easing';
+import { createRng } from '../utils/random';
+import { TreeSpec } from '../types';
+import { useFormationMorph } from '../hooks/useFormationMorph';
+import { IDLE_MOTIONS, getIdleMotion } from '../utils/formations';
+import { useTheme } from '../hooks/useTheme';
+import { useMusic } from '../hooks/useMusic';
+import { choreographyShaderChunk, getChoreographyIndex } from '../utils/choreography';
 
 // Custom Shader for the Foliage
 const vertexShader = `
   uniform float uTime;
   uniform float uProgress;
+  uniform float uGather;
+  uniform float uFromIdle; // Index into IDLE_MOTIONS
+  uniform float uToIdle;
+  uniform float uMid;   // Music mid level, 0 -> 1
+  uniform float uMusic; // How much the music drives the particles (fades in / out)
   
-  attribute vec3 aScatterPos;
-  attribute vec3 aTreePos;
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
+  attribute vec4 aFromColor;
+  attribute vec4 aToColor;
   attribute float aRandom;
   
+  ${choreographyShaderChunk}
+
   varying float vAlpha;
   varying vec2 vUv;
+  varying vec4 vColor;
+
+  vec2 rotate2d(vec2 v, float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return vec2(c * v.x - s * v.y, s * v.x + c * v.y);
+  }
+
+  // Offset from the resting position, per idle motion
+  vec3 idleMotion(float mode, vec3 p) {
+    // Breathe: gentle bob of an assembled shape
+    if (mode < 0.5) return vec3(0.0, sin(uTime * 1.5 + aRandom * 10.0) * 0.1, 0.0);
+
+    // Float: the classic chaotic drift
+    if (mode < 1.5) return vec3(0.0, sin(uTime * 0.5 + aRandom * 5.0) * 0.5, 0.0);
+
+    // Orbit: differential rotation, the core turns faster than the rim
+    if (mode < 2.5) {
+      float r = length(p.xz);
+      vec2 xz = rotate2d(p.xz, uTime * 0.6 / (1.0 + r * 0.15));
+      return vec3(xz.x - p.x, sin(uTime * 0.8 + aRandom * 6.28) * 0.15, xz.y - p.z);
+    }
+
+    // Swirl: tornado spin, fastest near the axis, with a wobbling lift
+    if (mode < 3.5) {
+      float r = length(p.xz);
+      vec2 xz = rotate2d(p.xz, uTime * 1.6 / (0.6 + r * 0.25));
+      xz *= 1.0 + sin(uTime * 2.0 + aRandom * 12.0) * 0.05;
+      return vec3(xz.x - p.x, sin(uTime * 0.8 + aRandom * 6.28) * 0.6, xz.y - p.z);
+    }
+
+    // Burst: embers keep pulsing outward
+    if (mode < 4.5) {
+      vec3 dir = normalize(p + vec3(0.001));
+      return dir * (0.5 + 0.5 * sin(uTime * 0.7 + aRandom * 6.28)) * 1.2;
+    }
+
+    // Snow: slow sinking and swaying like flakes in still air
+    return vec3(
+      sin(uTime * 0.6 + aRandom * 17.0) * 0.6,
+      sin(uTime * 0.25 + aRandom * 6.28) * 1.5,
+      cos(uTime * 0.45 + aRandom * 13.0) * 0.6
+    );
+  }
   
   void main() {
     vUv = uv;
     
-    // Interpolate between scatter and tree positions
-    vec3 targetPos = mix(aScatterPos, aTreePos, uProgress);
+    // Each particle runs its own slice of the transition (choreography)
+    float local = choreographedProgress(uProgress, choreographyDelay(aToPos));
+
+    // Formation color (e.g. image pixels); alpha is how much it overrides the palette
+    vColor = mix(aFromColor, aToColor, local);
     
-    // Add "Breathing" animation
-    float breathe = sin(uTime * 1.5 + aRandom * 10.0) * 0.1;
-    float chaotic = sin(uTime * 0.5 + aRandom * 5.0) * 0.5;
+    // Interpolate between the previous and the next formation
+    vec3 targetPos = mix(aFromPos, aToPos, local);
+    targetPos.y += choreographyLift(local);
     
-    // Apply movement based on progress
-    vec3 movement = vec3(0.0, 1.0, 0.0) * mix(chaotic, breathe, uProgress);
+    // Each formation's own idle motion, handed over as the particle travels
+    vec3 movement = mix(idleMotion(uFromIdle, targetPos), idleMotion(uToIdle, targetPos), local);
     
     vec3 finalPos = targetPos + movement;
 
@@ -38,13 +98,21 @@ const vertexShader = `
     gl_PointSize = (80.0 * aRandom + 20.0) * (1.0 / -mvPosition.z);
     gl_Position = projectionMatrix * mvPosition;
     
-    vAlpha = 0.8 + 0.2 * sin(uTime * 3.0 + aRandom * 10.0);
+    // Twinkle, or breathe with the mids while music plays
+    float twinkle = 0.8 + 0.2 * sin(uTime * 3.0 + aRandom * 10.0);
+    vAlpha = mix(twinkle, 0.5 + 0.5 * uMid * (0.7 + 0.6 * aRandom), uMusic);
   }
 `;
 
 const fragmentShader = `
+  uniform vec3 uColorCore;
+  uniform vec3 uColorRim;
+  uniform float uMid;
+  uniform float uMusic;
+
   varying float vAlpha;
   varying vec2 vUv;
+  varying vec4 vColor;
 
   void main() {
     // Circular particle
@@ -52,86 +120,102 @@ const fragmentShader = `
     float ll = length(xy);
     if(ll > 0.5) discard;
     
-    // Gradient: Emerald Center -> Gold Rim
-    vec3 colorCore = vec3(0.0, 0.4, 0.15); // Deep Emerald
-    vec3 colorRim = vec3(1.0, 0.8, 0.2);   // Gold
-    
+    // Gradient: theme core (Deep Emerald) -> theme rim (Gold)
     // Soft mix based on distance from center
     float mixFactor = smoothstep(0.0, 0.5, ll);
-    vec3 finalColor = mix(colorCore, colorRim, pow(mixFactor, 3.0)); // Bias towards emerald
+    vec3 finalColor = mix(uColorCore, uColorRim, pow(mixFactor, 3.0)); // Bias towards the core
     
-    // Add extra glow brightness
-    gl_FragColor = vec4(finalColor * 2.0, vAlpha); 
+    // Add extra glow brightness (more with the music's mids)
+    finalColor *= 2.0 * (1.0 + uMid * uMusic * 0.8);
+
+    // Blend towards the formation's own color, brightest at the core
+    vec3 pointColor = vColor.rgb * (1.0 + 0.5 * (1.0 - mixFactor));
+    finalColor = mix(finalColor, pointColor, vColor.a);
+
+    gl_FragColor = vec4(finalColor, vAlpha); 
   }
 `;
 
 interface FoliageProps {
   count?: number;
-  treeState: TreeState;
+  seed: number;
+  spec: TreeSpec;
 }
 
-export const Foliage: React.FC<FoliageProps> = ({ count = 6000, treeState }) => {
+export const Foliage: React.FC<FoliageProps> = ({ count = 6000, seed, spec }) => {
   const meshRef = useRef<THREE.Points>(null);
   
-  // Create buffers
-  const { positions, scatterPositions, treePositions, randoms } = useMemo(() => {
+  const morph = useFormationMorph({ 
+    layer: 'foliage', 
+    count, 
+    seed, 
+    spec, 
+    withColors: true 
+  });
+  const appliedVersion = useRef(-1);
+  const theme = useTheme();
+  const music = useMusic();
+
+  // Per-particle buffers that don't depend on the formation
+  const { positions, randoms } = useMemo(() => {
     const pos = new Float32Array(count * 3); // Current positions (dummy)
-    const scatter = new Float32Array(count * 3);
-    const tree = new Float32Array(count * 3);
     const rnd = new Float32Array(count);
+    const rng = createRng(seed);
 
     for (let i = 0; i < count; i++) {
-      // Tree Shape
-      const t = Math.pow(Math.random(), 0.8); 
-      const treeP = getTreeSpiralPoint(t, 6, 14, 15, 0.6);
-      tree[i * 3] = treeP.x;
-      tree[i * 3 + 1] = treeP.y;
-      tree[i * 3 + 2] = treeP.z;
-
-      // Scatter Shape
-      const scatterP = getRandomSpherePoint(15); 
-      scatter[i * 3] = scatterP.x;
-      scatter[i * 3 + 1] = scatterP.y;
-      scatter[i * 3 + 2] = scatterP.z;
-
-      rnd[i] = Math.random();
+      rnd[i] = rng();
     }
     
-    return { 
-      positions: pos, 
-      scatterPositions: scatter, 
-      treePositions: tree, 
-      randoms: rnd 
-    };
-  }, [count]);
+    return { positions: pos, randoms: rnd };
+  }, [count, seed]);
 
   // Uniforms
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uProgress: { value: 0 }
+    uProgress: { value: 0 },
+    uGather: { value: 0 },
+    uFromIdle: { value: 0 },
+    uToIdle: { value: 0 },
+    uChoreography: { value: 0 },
+    uTreeSize: { value: new THREE.Vector2() },
+    uColorCore: { value: new THREE.Color() },
+    uColorRim: { value: new THREE.Color() },
+    uMid: { value: 0 },
+    uMusic: { value: 0 }
   }), []);
 
-  // Use a ref for the progress value so we can damp it manually outside shader uniforms
-  const progress = useRef(0);
-
   useFrame((state, delta) => {
     if (meshRef.current) {
       const material = meshRef.current.material as THREE.ShaderMaterial;
       material.uniforms.uTime.value += delta;
-      
-      const isTree = treeState === TreeState.TREE_SHAPE;
-      
-      // Scatter: 2.5 (Fastish, ~1s settle time), Tree: 1.0 (Slow/Elegant)
-      const dampSpeed = isTree ? 1.0 : 2.5;
-
-      damp(progress, 'current', isTree ? 1 : 0, dampSpeed, delta);
-      material.uniforms.uProgress.value = progress.current;
+
+      // Re-upload the morph endpoints only when they were rewritten
+      if (appliedVersion.current !== morph.version) {
+        const { attributes } = meshRef.current.geometry;
+        attributes.aFromPos.needsUpdate = true;
+        attributes.aToPos.needsUpdate = true;
+        attributes.aFromColor.needsUpdate = true;
+        attributes.aToColor.needsUpdate = true;
+        appliedVersion.current = morph.version;
+      }
+
+      material.uniforms.uProgress.value = morph.progress;
+      material.uniforms.uGather.value = morph.gather;
+      material.uniforms.uFromIdle.value = IDLE_MOTIONS.indexOf(getIdleMotion(morph.source));
+      material.uniforms.uToIdle.value = IDLE_MOTIONS.indexOf(getIdleMotion(morph.target));
+      material.uniforms.uChoreography.value = getChoreographyIndex(morph.choreography);
+      material.uniforms.uTreeSize.value.set(spec.height, spec.baseRadius);
+      material.uniforms.uColorCore.value.copy(theme.palette.foliageCore);
+      material.uniforms.uColorRim.value.copy(theme.palette.foliageRim);
+      material.uniforms.uMid.value = music.levels.mid;
+      material.uniforms.uMusic.value = music.levels.active;
     }
   });
 
   return (
     <points ref={meshRef}>
-      <bufferGeometry>
+      {/* Keyed by count: a new quality tier or config needs fresh attributes, three can't resize them */}
+      <bufferGeometry key={count}>
         <bufferAttribute
           attach="attributes-position"
           count={positions.length / 3}
@@ -139,17 +223,29 @@ export const Foliage: React.FC<FoliageProps> = ({ count = 6000, treeState }) =>
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-aScatterPos"
-          count={scatterPositions.length / 3}
-          array={scatterPositions}
+          attach="attributes-aFromPos"
+          count={morph.from.length / 3}
+          array={morph.from}
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-aTreePos"
-          count={treePositions.length / 3}
-          array={treePositions}
+          attach="attributes-aToPos"
+          count={morph.to.length / 3}
+          array={morph.to}
           itemSize={3}
         />
+        <bufferAttribute
+          attach="attributes-aFromColor"
+          count={morph.fromColor.length / 4}
+          array={morph.fromColor}
+          itemSize={4}
+        />
+        <bufferAttribute
+          attach="attributes-aToColor"
+          count={morph.toColor.length / 4}
+          array={morph.toColor}
+          itemSize={4}
+        />
         <bufferAttribute
           attach="attributes-aRandom"
           count={randoms.length}
@@ -1,24 +1,25 @@
-import React, { useMemo, useRef, useState, useEffect } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { damp } from 'maath/easing';
-import { TreeState } from '../types';
-import { getRandomSpherePoint } from '../utils/math';
+import { TreeSpec } from '../types';
+import { useFormationMorph, getMorphPoint } from '../hooks/useFormationMorph';
+import { useSfx } from '../hooks/useSfx';
+import { useHoverCursor } from '../hooks/useHoverCursor';
 
 interface Props {
-  treeState: TreeState;
+  seed: number;
+  spec: TreeSpec;
 }
 
-export const GingerbreadMan: React.FC<Props> = ({ treeState }) => {
+export const GingerbreadMan: React.FC<Props> = ({ seed, spec }) => {
   const groupRef = useRef<THREE.Group>(null);
   const [active, setActive] = useState(false);
   const [hovered, setHovered] = useState(false);
+  const sfx = useSfx();
   
   // Handle cursor change
-  useEffect(() => {
-    document.body.style.cursor = hovered ? 'pointer' : 'auto';
-    return () => { document.body.style.cursor = 'auto'; }
-  }, [hovered]);
+  useHoverCursor(hovered);
 
   // 1. Define Geometry (The Cookie Shape)
   const cookieGeometry = useMemo(() => {
@@ -70,44 +71,25 @@ export const GingerbreadMan: React.FC<Props> = ({ treeState }) => {
     return geom;
   }, []);
 
-  // 2. Positions
-  const { treePos, scatterPos } = useMemo(() => {
-    // Hidden spot: Lower branch
-    const angle = Math.PI * 0.25; 
-    const r = 3.2; 
-    const y = -2.5;
-    
-    const tPos = new THREE.Vector3(
-      Math.cos(angle) * r,
-      y,
-      Math.sin(angle) * r
-    );
-    
-    const sPos = getRandomSpherePoint(15);
-    return { treePos: tPos, scatterPos: sPos };
-  }, []);
+  // 2. Positions: each formation picks its own hiding spot
+  const morph = useFormationMorph({ layer: 'keepsake', count: 1, seed, spec });
   
   // Animation refs
-  const progress = useRef(0); // 0 = Scattered, 1 = Tree
   const modeRef = useRef(0); // 0 = Normal, 1 = Active (Front)
 
   useFrame((state, delta) => {
     if (!groupRef.current) return;
     
-    const isTree = treeState === TreeState.TREE_SHAPE;
-    // Assemble slower for dramatic effect, scatter fast
-    damp(progress, 'current', isTree ? 1 : 0, isTree ? 1.0 : 2.0, delta);
-    
     // Transition "Mode" based on active state
     // Very snappy transition for the "jump" to front
     damp(modeRef, 'current', active ? 1 : 0, 3.0, delta);
     
-    const p = progress.current;
+    const p = morph.gather; // 0 = Scattered, 1 = Assembled
     const m = modeRef.current;
     
     // --- POSITION CALCULATION ---
-    // 1. Calculate normal tree/scatter position
-    const normalPos = new THREE.Vector3().lerpVectors(scatterPos, treePos, p);
+    // 1. Calculate normal position between formations
+    const normalPos = getMorphPoint(morph, 0, new THREE.Vector3());
     
     // 2. Calculate "Front of Camera" position
     // We want him fixed relative to the camera lens so he stays in frame
@@ -128,9 +110,9 @@ export const GingerbreadMan: React.FC<Props> = ({ treeState }) => {
     
     // --- ROTATION / LOOK AT ---
     // We need to blend where he looks.
-    // Target A: Center of tree (0, -2.5, 0) - or random when scattered
-    const center = new THREE.Vector3(0, -2.5, 0);
+    // Target A: The central axis at his height - or random when scattered
     // Target B: Camera position (to look at user)
+    const center = new THREE.Vector3(0, normalPos.y, 0);
     const lookAtTarget = new THREE.Vector3().lerpVectors(center, cameraPos, m);
     
     // If scattered and not active, tumble around
@@ -174,6 +156,7 @@ export const GingerbreadMan: React.FC<Props> = ({ treeState }) => {
       onClick={(e) => {
         e.stopPropagation();
         setActive(!active);
+        if (groupRef.current) sfx.crunch(groupRef.current);
       }}
       onPointerOver={() => setHovered(true)}
       onPointerOut={() => setHovered(false)}
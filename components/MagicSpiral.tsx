@@ -1,9 +1,10 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { getRandomSpherePoint } from '../utils/math';
-import { damp } from 'maath/easing';
+import { TreeSpec } from '../types';
+import { createRng } from '../utils/random';
+import { useFormationMorph, getMorphPoint } from '../hooks/useFormationMorph';
+import { useMusic } from '../hooks/useMusic';
 
 // Custom shader for soft, blurry, faint light dots
 const vertexShader = `
@@ -21,6 +22,8 @@ const vertexShader = `
 `;
 
 const fragmentShader = `
+  uniform float uFlash; // Music beat, 0 -> 1
+
   void main() {
     // Calculate distance from center of the point (0.0 to 0.5)
     vec2 xy = gl_PointCoord.xy - vec2(0.5);
@@ -39,124 +42,77 @@ const fragmentShader = `
     // Final color: Boosted White for extra glow
     // RGB = 2.0 pushes it into HDR territory for the Bloom effect
     // Alpha = glow * 0.6 (slightly increased from 0.5 for visibility)
-    gl_FragColor = vec4(2.0, 2.0, 2.0, glow * 0.6); 
+    // Beats flash them brighter
+    gl_FragColor = vec4(vec3(2.0 + uFlash * 4.0), glow * (0.6 + 0.4 * uFlash)); 
   }
 `;
 
 interface MagicSpiralProps {
-  treeState: TreeState;
+  seed: number;
+  spec: TreeSpec;
   count?: number;
-  radius?: number;
-  height?: number;
 }
 
 export const MagicSpiral: React.FC<MagicSpiralProps> = ({ 
-  treeState, 
-  count = 120, // Drastically reduced for "spaced out" look
-  radius = 7.0, 
-  height = 15 
+  seed,
+  spec,
+  count = 120 // Drastically reduced for "spaced out" look
 }) => {
   const pointsRef = useRef<THREE.Points>(null);
   
-  // Generate data for Dual Positions
-  const { positions, scatterPositions, treePositions, sizes } = useMemo(() => {
+  const morph = useFormationMorph({ layer: 'spiral', count, seed, spec });
+
+  // Per-light data that doesn't depend on the formation
+  const { positions, sizes } = useMemo(() => {
     const pos = new Float32Array(count * 3);
-    const scatter = new Float32Array(count * 3);
-    const tree = new Float32Array(count * 3);
     const sz = new Float32Array(count);
+    const rng = createRng(seed);
 
     for (let i = 0; i < count; i++) {
-      const t = i / count; // Normalized 0 -> 1
-      
-      // --- Tree Spiral Shape ---
-      const loops = 4; 
-      const angle = t * Math.PI * 2 * loops; 
-      
-      const currentRadius = radius * (1 - t) + 0.5; 
-      
-      const y = (t - 0.5) * height; // Bottom to Top
-      const x = Math.cos(angle) * currentRadius;
-      const z = Math.sin(angle) * currentRadius;
-
-      tree[i * 3] = x;
-      tree[i * 3 + 1] = y;
-      tree[i * 3 + 2] = z;
-
-      // --- Scatter Shape ---
-      const scatterP = getRandomSpherePoint(20);
-      scatter[i * 3] = scatterP.x;
-      scatter[i * 3 + 1] = scatterP.y;
-      scatter[i * 3 + 2] = scatterP.z;
-
-      // Initial pos
-      pos[i * 3] = x;
-      pos[i * 3 + 1] = y;
-      pos[i * 3 + 2] = z;
-
       // --- Random Size for "Fairy Light" feel ---
       // Randomize size slightly so they aren't uniform
-      sz[i] = 0.5 + Math.random() * 0.5; 
+      sz[i] = 0.5 + rng() * 0.5; 
     }
 
-    return { 
-      positions: pos, 
-      scatterPositions: scatter, 
-      treePositions: tree, 
-      sizes: sz
-    };
-  }, [count, radius, height]);
+    return { positions: pos, sizes: sz };
+  }, [count, seed]);
 
-  // Animation State
-  const progress = useRef(0);
+  const tempPoint = useMemo(() => new THREE.Vector3(), []);
+  const music = useMusic();
+  const uniforms = useMemo(() => ({ uFlash: { value: 0 } }), []);
 
   useFrame((state, delta) => {
     if (!pointsRef.current) return;
 
-    const isTree = treeState === TreeState.TREE_SHAPE;
-    // Scatter: 2.5 (Fastish), Tree: 1.0 (Elegant)
-    const dampSpeed = isTree ? 1.0 : 2.5;
-
-    // 1. Handle State Transition
-    damp(progress, 'current', isTree ? 1 : 0, dampSpeed, delta);
-    const p = progress.current;
+    const p = morph.gather;
+    const point = tempPoint;
 
     const positionsAttribute = pointsRef.current.geometry.attributes.position;
     
-    // 2. Rotate
+    // 1. Rotate
     pointsRef.current.rotation.y += delta * 0.15; 
 
-    // 3. Update Particle Positions
+    // 2. Update Particle Positions
+    const time = state.clock.elapsedTime;
     for (let i = 0; i < count; i++) {
-      const ix = i * 3;
-      const iy = i * 3 + 1;
-      const iz = i * 3 + 2;
-
-      const tx = treePositions[ix];
-      const ty = treePositions[iy];
-      const tz = treePositions[iz];
-
-      const sx = scatterPositions[ix];
-      const sy = scatterPositions[iy];
-      const sz = scatterPositions[iz];
+      // Position along the (choreographed) morph
+      getMorphPoint(morph, i, point);
 
       // Slower, dreamy wave
-      const time = state.clock.getElapsedTime();
       const wave = Math.sin(time * 1.0 + i * 0.2) * 0.1 * p;
 
-      positionsAttribute.setXYZ(
-        i,
-        sx + (tx - sx) * p,
-        sy + (ty - sy) * p + wave,
-        sz + (tz - sz) * p
-      );
+      positionsAttribute.setXYZ(i, point.x, point.y + wave, point.z);
     }
     
     positionsAttribute.needsUpdate = true;
+
+    uniforms.uFlash.value = music.levels.beat * music.levels.active;
   });
 
   return (
     <points ref={pointsRef}>
-      <bufferGeometry>
+      {/* Rebuilt when the count changes: attributes can't be resized in place */}
+      <bufferGeometry key={count}>
         <bufferAttribute
           attach="attributes-position"
           count={positions.length / 3}
@@ -176,6 +132,7 @@ export const MagicSpiral: React.FC<MagicSpiralProps> = ({
         - depthWrite=false prevents them from occluding each other weirdly.
       */}
       <shaderMaterial
+        uniforms={uniforms}
         vertexShader={vertexShader}
         fragmentShader={fragmentShader}
         transparent={true}
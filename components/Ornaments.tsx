@@ -1,55 +1,150 @@
 import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { getTreeSpiralPoint, getRandomSpherePoint } from '../utils/math';
-import { damp } from 'maath/easing';
-
-interface OrnamentData {
-  scatterPos: THREE.Vector3;
-  treePos: THREE.Vector3;
-  rotationSpeed: THREE.Vector3;
-  baseScale: number;
-  phase: number; 
-}
+import { TreeSpec } from '../types';
+import { createRng } from '../utils/random';
+import { getTreeHeightAt } from '../utils/math';
+import { DEFAULT_FORMATION, FULL_RANGE, generateFormationLayout, getFormation } from '../utils/formations';
+import { useFormationMorph } from '../hooks/useFormationMorph';
+import { useTransition } from '../hooks/useTransition';
+import { useTheme } from '../hooks/useTheme';
+import { useMusic } from '../hooks/useMusic';
+import { choreographyShaderChunk, getChoreographyIndex } from '../utils/choreography';
+
+// Shader patch applied on top of the standard (and depth) material.
+// Each instance's position, bobbing, pulse and spin are computed here from
+// instanced attributes, so the CPU only updates a handful of uniforms per frame.
+const vertexHeader = `
+  uniform float uTime;
+  uniform float uProgress;
+  uniform float uGather;
+  uniform float uSpin;
+  uniform float uScaleFactor;
+  uniform float uBass;  // Music bass level, 0 -> 1
+  uniform float uMusic; // How much the music drives the pulse (fades in / out)
+
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
+  attribute vec4 aOrientation;     // Starting orientation (quaternion)
+  attribute vec3 aAngularVelocity; // Spin axis scaled by speed, radians per second
+  attribute float aScale;
+  attribute float aPhase;
+
+  ${choreographyShaderChunk}
+
+  mat3 quatToMat3(vec4 q) {
+    vec3 q2 = q.xyz * 2.0;
+    float xx = q.x * q2.x, yy = q.y * q2.y, zz = q.z * q2.z;
+    float xy = q.x * q2.y, xz = q.x * q2.z, yz = q.y * q2.z;
+    float wx = q.w * q2.x, wy = q.w * q2.y, wz = q.w * q2.z;
+    return mat3(
+      1.0 - (yy + zz), xy + wz, xz - wy,
+      xy - wz, 1.0 - (xx + zz), yz + wx,
+      xz + wy, yz - wx, 1.0 - (xx + yy)
+    );
+  }
+
+  // Each ornament spins about its own axis from its own starting orientation.
+  // uSpin is elapsed time (burst-weighted), so spin speed ignores frame rate.
+  mat3 ornamentRotation() {
+    float speed = length(aAngularVelocity);
+    vec3 axis = speed > 0.0 ? aAngularVelocity / speed : vec3(0.0, 1.0, 0.0);
+    float half_angle = 0.5 * speed * uSpin;
+    vec4 spin = vec4(axis * sin(half_angle), cos(half_angle));
+    return quatToMat3(spin) * quatToMat3(aOrientation);
+  }
+`;
+
+const normalChunk = `
+  #include <beginnormal_vertex>
+  objectNormal = ornamentRotation() * objectNormal;
+`;
+
+const positionChunk = `
+  #include <begin_vertex>
+
+  // Each ornament runs its own slice of the transition (choreography)
+  float local = choreographedProgress(uProgress, choreographyDelay(aToPos));
+
+  // Scale logic: a gentle idle pulse, or the bass while music plays
+  float idlePulse = sin(uTime * 2.0 + aPhase) * 0.05;
+  float pulse = 1.0 + mix(idlePulse, uBass * 0.35, uMusic);
+  float transitionScale = 0.6 + 0.4 * uGather;
+  transformed = ornamentRotation() * (transformed * aScale * uScaleFactor * pulse * transitionScale);
+
+  // Interpolate position between formations
+  vec3 offset = mix(aFromPos, aToPos, local);
+  offset.y += choreographyLift(local);
+
+  // Add "Floaty" movement (gentle bobbing)
+  float floatAmp = 0.2 * (1.0 - uGather) + 0.05 * uGather;
+  offset.y += sin(uTime * 0.5 + aPhase) * floatAmp;
+  offset.x += cos(uTime * 0.3 + aPhase) * (floatAmp * 0.5);
+
+  transformed += offset;
+`;
+
+type OrnamentUniforms = Record<'uTime' | 'uProgress' | 'uGather' | 'uSpin' | 'uScaleFactor' | 'uChoreography' | 'uBass' | 'uMusic', THREE.IUniform<number>> & {
+  uTreeSize: THREE.IUniform<THREE.Vector2>;
+};
+
+const patchOrnamentShader = (uniforms: OrnamentUniforms) => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = vertexHeader + shader.vertexShader
+    .replace('#include <beginnormal_vertex>', normalChunk)
+    .replace('#include <begin_vertex>', positionChunk);
+};
 
 interface OrnamentsProps {
   count: number;
   type: 'box' | 'sphere' | 'diamond';
   color: string;
-  treeState: TreeState;
   geometry: THREE.BufferGeometry;
   roughness?: number;
   metalness?: number;
   scaleFactor?: number;
   range?: [number, number]; 
+  paletteIndex?: number; // Follow the theme's ornament palette instead of `color`
+  seed: number;
+  spec: TreeSpec;
 }
 
 export const Ornaments: React.FC<OrnamentsProps> = ({ 
   count, 
   type, 
   color, 
-  treeState, 
   geometry,
   roughness = 0.2,
   metalness = 0.8,
   scaleFactor = 1.0,
-  range = [0, 1] 
+  range = FULL_RANGE,
+  paletteIndex,
+  seed,
+  spec
 }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
-  const tempObj = useMemo(() => new THREE.Object3D(), []);
 
-  // Pre-calculate positions
-  const data = useMemo<OrnamentData[]>(() => {
-    const items: OrnamentData[] = [];
-    const [minT, maxT] = range;
+  const morph = useFormationMorph({ layer: 'ornament', count, seed, spec, range });
+  const transition = useTransition();
+  const theme = useTheme();
+  const music = useMusic();
 
-    for (let i = 0; i < count; i++) {
-      // Tree position 
-      const rangeSpan = maxT - minT;
-      const t = minT + Math.random() * rangeSpan; 
+  const [minT, maxT] = range;
 
-      const treeP = getTreeSpiralPoint(t, 5.5, 13, 15, 1.2); 
+  // Per-instance attributes that don't depend on the formation
+  const { orientations, angularVelocities, scales, phases } = useMemo(() => {
+    const orient = new Float32Array(count * 4);
+    const spin = new Float32Array(count * 3);
+    const scl = new Float32Array(count);
+    const phs = new Float32Array(count);
+    const rng = createRng(seed);
+    // Size is keyed to where the ornament hangs on the tree, whatever the current formation
+    const treeLayout = generateFormationLayout(getFormation(DEFAULT_FORMATION), 'ornament', count, spec, seed, [minT, maxT]);
+    const top = getTreeHeightAt(spec, 1);
+
+    for (let i = 0; i < count; i++) {
+      // Normalized height on the tree
+      const t = (treeLayout[i * 3 + 1] + top) / (2 * top);
       
       const isLargeVariant = i % 2 === 0;
       const variantMultiplier = isLargeVariant ? 1.35 : 1.0; 
@@ -59,108 +154,108 @@ export const Ornaments: React.FC<OrnamentsProps> = ({
       let baseScale = 0.2; 
       
       if(type === 'box') {
-         baseScale = (0.2 + Math.random() * 0.2) * variantMultiplier * heightMultiplier; 
+         baseScale = (0.2 + rng() * 0.2) * variantMultiplier * heightMultiplier; 
       } else if (type === 'sphere') {
-         baseScale = (0.15 + Math.random() * 0.15) * variantMultiplier * heightMultiplier;
+         baseScale = (0.15 + rng() * 0.15) * variantMultiplier * heightMultiplier;
       } else {
-         baseScale = (0.1 + Math.random() * 0.1) * variantMultiplier * heightMultiplier;
+         baseScale = (0.1 + rng() * 0.1) * variantMultiplier * heightMultiplier;
       }
       
-      const scatterP = getRandomSpherePoint(14); 
-
-      items.push({
-        scatterPos: scatterP,
-        treePos: treeP,
-        rotationSpeed: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.01, 
-          (Math.random() - 0.5) * 0.01, 
-          (Math.random() - 0.5) * 0.01
-        ),
-        baseScale: baseScale,
-        phase: Math.random() * Math.PI * 2
-      });
-    }
-    return items;
-  }, [count, type, range]);
-
-  // Current animation progress
-  const progress = useRef(0);
-  
-  // Rotation burst multiplier
-  const burstRef = useRef(1.0);
-
-  // Handle Rotation Burst Logic
-  useEffect(() => {
-    if (treeState === TreeState.SCATTERED) {
-      // Accelerate rotation 2x
-      burstRef.current = 2.0;
-      
-      const timer = setTimeout(() => {
-        burstRef.current = 1.0;
-      }, 3000); // Lasts 3 seconds
-      
-      return () => clearTimeout(timer);
-    } else {
-      burstRef.current = 1.0;
+      // Uniformly random starting orientation
+      const u1 = rng();
+      const u2 = rng() * Math.PI * 2;
+      const u3 = rng() * Math.PI * 2;
+      orient[i * 4] = Math.sqrt(1 - u1) * Math.sin(u2);
+      orient[i * 4 + 1] = Math.sqrt(1 - u1) * Math.cos(u2);
+      orient[i * 4 + 2] = Math.sqrt(u1) * Math.sin(u3);
+      orient[i * 4 + 3] = Math.sqrt(u1) * Math.cos(u3);
+
+      // Radians per second (about 0.3 rad/s at most per axis)
+      spin[i * 3] = (rng() - 0.5) * 0.6;
+      spin[i * 3 + 1] = (rng() - 0.5) * 0.6;
+      spin[i * 3 + 2] = (rng() - 0.5) * 0.6;
+      scl[i] = baseScale;
+      phs[i] = rng() * Math.PI * 2;
     }
-  }, [treeState]);
+    return { orientations: orient, angularVelocities: spin, scales: scl, phases: phs };
+  }, [count, type, minT, maxT, seed, spec]);
 
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
+  // Own copy of the shared geometry so the instanced attributes don't leak
+  // into other ornament groups using the same shape
+  const instanceGeometry = useMemo(() => {
+    const geom = geometry.clone();
+    geom.setAttribute('aFromPos', new THREE.InstancedBufferAttribute(morph.from, 3));
+    geom.setAttribute('aToPos', new THREE.InstancedBufferAttribute(morph.to, 3));
+    geom.setAttribute('aOrientation', new THREE.InstancedBufferAttribute(orientations, 4));
+    geom.setAttribute('aAngularVelocity', new THREE.InstancedBufferAttribute(angularVelocities, 3));
+    geom.setAttribute('aScale', new THREE.InstancedBufferAttribute(scales, 1));
+    geom.setAttribute('aPhase', new THREE.InstancedBufferAttribute(phases, 1));
+    return geom;
+  }, [geometry, morph, orientations, angularVelocities, scales, phases]);
 
-    const isTree = treeState === TreeState.TREE_SHAPE;
-    // Scatter: 2.5 (Fastish), Tree: 1.0 (Elegant)
-    const dampSpeed = isTree ? 1.0 : 2.5;
-
-    damp(progress, 'current', isTree ? 1 : 0, dampSpeed, delta);
-
-    const p = progress.current;
-    const time = state.clock.getElapsedTime();
-    const burstMult = burstRef.current;
-    
-    // Update every instance
-    data.forEach((item, i) => {
-      // Interpolate position
-      const currentPos = new THREE.Vector3().lerpVectors(
-        item.scatterPos,
-        item.treePos,
-        p 
-      );
-
-      // Add "Floaty" movement (gentle bobbing)
-      const floatAmp = 0.2 * (1 - p) + 0.05 * p; 
-      const floatY = Math.sin(time * 0.5 + item.phase) * floatAmp; 
-      const floatX = Math.cos(time * 0.3 + item.phase) * (floatAmp * 0.5);
-      
-      currentPos.y += floatY;
-      currentPos.x += floatX;
+  useEffect(() => () => instanceGeometry.dispose(), [instanceGeometry]);
 
-      // Update Rotation with Burst Multiplier
-      tempObj.rotation.x += item.rotationSpeed.x * burstMult;
-      tempObj.rotation.y += item.rotationSpeed.y * burstMult;
-      tempObj.rotation.z += item.rotationSpeed.z * burstMult;
+  // Shared by the color and shadow passes so both see the same motion
+  const uniforms = useMemo<OrnamentUniforms>(() => ({
+    uTime: { value: 0 },
+    uProgress: { value: 0 },
+    uGather: { value: 0 },
+    uSpin: { value: 0 },
+    uScaleFactor: { value: scaleFactor },
+    uChoreography: { value: 0 },
+    uTreeSize: { value: new THREE.Vector2() },
+    uBass: { value: 0 },
+    uMusic: { value: 0 }
+  }), []);
+  uniforms.uScaleFactor.value = scaleFactor;
 
-      // Apply
-      tempObj.position.copy(currentPos);
-      
-      // Scale logic
-      const pulse = 1 + Math.sin(time * 2 + item.phase) * 0.05; 
-      const transitionScale = 0.6 + 0.4 * p; 
-      
-      const finalScale = item.baseScale * scaleFactor * pulse * transitionScale;
-      tempObj.scale.setScalar(finalScale);
+  const onBeforeCompile = useMemo(() => patchOrnamentShader(uniforms), [uniforms]);
 
-      tempObj.updateMatrix();
-      meshRef.current!.setMatrixAt(i, tempObj.matrix);
-    });
+  const depthMaterial = useMemo(() => {
+    const material = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+    material.onBeforeCompile = onBeforeCompile;
+    return material;
+  }, [onBeforeCompile]);
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
+  useEffect(() => () => depthMaterial.dispose(), [depthMaterial]);
+
+  const appliedVersion = useRef(-1);
+
+  useFrame((state, delta) => {
+    if (!meshRef.current) return;
+
+    // Re-upload the morph endpoints only when they were rewritten
+    if (appliedVersion.current !== morph.version) {
+      instanceGeometry.attributes.aFromPos.needsUpdate = true;
+      instanceGeometry.attributes.aToPos.needsUpdate = true;
+      appliedVersion.current = morph.version;
+    }
+
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uProgress.value = morph.progress;
+    uniforms.uGather.value = morph.gather;
+    uniforms.uChoreography.value = getChoreographyIndex(morph.choreography);
+    uniforms.uTreeSize.value.set(spec.height, spec.baseRadius);
+    // Spin clock: real seconds, running faster during the burst
+    uniforms.uSpin.value += delta * transition.burst;
+    uniforms.uBass.value = music.levels.bass;
+    uniforms.uMusic.value = music.levels.active;
+
+    const themed = paletteIndex !== undefined ? theme.palette.ornaments[paletteIndex] : undefined;
+    if (themed) {
+      const material = meshRef.current.material as THREE.MeshStandardMaterial;
+      material.color.copy(themed);
+      if (type === 'diamond') material.emissive.copy(themed);
+    }
   });
 
   return (
     <instancedMesh
       ref={meshRef}
-      args={[geometry, undefined, count]}
+      args={[instanceGeometry, undefined, count]}
+      customDepthMaterial={depthMaterial}
+      // Instances are placed in the shader, so the CPU-side bounds are meaningless
+      frustumCulled={false}
       castShadow
       receiveShadow
     >
@@ -171,6 +266,7 @@ export const Ornaments: React.FC<OrnamentsProps> = ({
         envMapIntensity={2.5}
         emissive={type === 'diamond' ? color : '#000000'}
         emissiveIntensity={type === 'diamond' ? 2 : 0}
+        onBeforeCompile={onBeforeCompile}
       />
     </instancedMesh>
   );
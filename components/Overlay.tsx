@@ -1,13 +1,188 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { TreeState } from '../types';
+import { FormationId, DEFAULT_FORMATION, INTRO_FORMATION, getTreeState } from '../utils/formations';
+import { useFormations } from '../hooks/useFormations';
+import { registerTextFormation, registerSvgFormation } from '../utils/glyphs';
+import { registerImageFormation } from '../utils/image';
+import { CHOREOGRAPHIES, Choreography } from '../utils/choreography';
+import { useTransition } from '../hooks/useTransition';
+import { useTheme, useActiveTheme } from '../hooks/useTheme';
+import { THEMES } from '../utils/themes';
+import { QUALITY_TIERS, QualityMode, QualityTier } from '../utils/quality';
+import { CAMERA_SHOTS, TOUR_SHOTS } from '../utils/director';
+import { useDirector, useDirectorState } from '../hooks/useDirector';
+import { SNAPSHOT_SIZES, DEFAULT_SNAPSHOT_SIZE, downloadBlob } from '../utils/snapshot';
+import { useSnapshot, useRecorder, useRecorderState } from '../hooks/useSnapshot';
+import { useMusic, useMusicState } from '../hooks/useMusic';
+import { useSfx, useSfxState } from '../hooks/useSfx';
+import { FIREWORK_PATTERNS, FireworkPattern } from '../utils/fireworks';
+import { useFireworks, useFireworksState } from '../hooks/useFireworks';
+import { useCountdown, useCountdownState } from '../hooks/useCountdown';
+import { useAdvent, useAdventState } from '../hooks/useAdvent';
+import { RECORDING_SIZES, RECORDING_FRAME_RATES, RecordingCue, RecordingFormat } from '../utils/recording';
+
+// What a recording captures; releases go to the formation picked under Release
+type RecordSequence = 'both' | 'release' | 'assemble' | 'none';
+
+const RECORD_DURATIONS = [4, 8, 12, 20];
 
 interface OverlayProps {
-  treeState: TreeState;
-  setTreeState: (state: TreeState) => void;
+  formation: FormationId;
+  setFormation: (formation: FormationId) => void;
+  configError?: string | null; // Why a ?scene=, ?text= or ?countdown= parameter was rejected
+  qualityMode: QualityMode;
+  qualityTier: QualityTier;    // Tier in effect (what auto picked, or the forced one)
+  setQualityMode: (mode: QualityMode) => void;
 }
 
-export const Overlay: React.FC<OverlayProps> = ({ treeState, setTreeState }) => {
-  const isTree = treeState === TreeState.TREE_SHAPE;
+export const Overlay: React.FC<OverlayProps> = ({ 
+  formation, 
+  setFormation, 
+  configError, 
+  qualityMode, 
+  qualityTier, 
+  setQualityMode 
+}) => {
+  const isTree = getTreeState(formation) === TreeState.TREE_SHAPE;
+  const formations = useFormations();
+  const transition = useTransition();
+  const theme = useTheme();
+  const activeTheme = useActiveTheme(theme);
+  const director = useDirector();
+  const camera = useDirectorState(director);
+  const snapshot = useSnapshot();
+  const [snapshotSize, setSnapshotSize] = useState(DEFAULT_SNAPSHOT_SIZE);
+  const [snapshotText, setSnapshotText] = useState(true);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const recorder = useRecorder();
+  const recording = useRecorderState(recorder);
+  const [recordFormat, setRecordFormat] = useState<RecordingFormat>('webm');
+  const [recordSize, setRecordSize] = useState(RECORDING_SIZES[1].id);
+  const [recordDuration, setRecordDuration] = useState(8);
+  const [recordFps, setRecordFps] = useState(30);
+  const [recordSequence, setRecordSequence] = useState<RecordSequence>('both');
+  const music = useMusic();
+  const musicState = useMusicState(music);
+  const sfx = useSfx();
+  const { muted } = useSfxState(sfx);
+  const fireworks = useFireworks();
+  const { pattern } = useFireworksState(fireworks);
+  const countdown = useCountdown();
+  const countdownState = useCountdownState(countdown);
+  const [countdownDate, setCountdownDate] = useState(countdownState.target.date);
+  const [countdownZone, setCountdownZone] = useState(countdownState.target.timeZone);
+  const [countdownError, setCountdownError] = useState<string | null>(null);
+  const timeZones = useMemo(() => Intl.supportedValuesOf('timeZone'), []);
+  const advent = useAdvent();
+  const { showing: adventCard } = useAdventState(advent);
+  // Follow targets set elsewhere (e.g. ?countdown=)
+  useEffect(() => {
+    setCountdownDate(countdownState.target.date);
+    setCountdownZone(countdownState.target.timeZone);
+  }, [countdownState.target]);
+  const [choreography, setChoreography] = useState<Choreography>(transition.options.choreography);
+  const [releaseTo, setReleaseTo] = useState<FormationId>(INTRO_FORMATION);
+  const releasedFormations = formations.filter((f) => f.released);
+  const [customText, setCustomText] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  // Arrival order for the next assembly
+  const handleChoreography = (mode: Choreography) => {
+    transition.options.choreography = mode;
+    setChoreography(mode);
+  };
+
+  // Download the scene as a PNG at the picked size
+  const handleSaveImage = () => {
+    const size = SNAPSHOT_SIZES.find((s) => s.id === snapshotSize)!;
+    setSnapshotError(null);
+    snapshot
+      .capture({ size, overlayText: snapshotText, accent: `#${theme.palette.accent.getHexString()}` })
+      .then((blob) => downloadBlob(blob, `merry-christmas-${size.width}x${size.height}.png`))
+      .catch((err: Error) => setSnapshotError(err.message));
+  };
+
+  // Release / assemble cues for the recording; 'both' assembles halfway through
+  const recordingCues = (): RecordingCue[] => {
+    const release = { at: 0, run: () => setFormation(releaseTo) };
+    switch (recordSequence) {
+      case 'release': return [release];
+      case 'assemble': return [{ at: 0, run: () => setFormation(DEFAULT_FORMATION) }];
+      case 'both': return [release, { at: recordDuration / 2, run: () => setFormation(DEFAULT_FORMATION) }];
+      case 'none': return [];
+    }
+  };
+
+  const handleCountdown = () => {
+    setCountdownError(null);
+    if (countdownState.running) {
+      countdown.stop();
+      return;
+    }
+    try {
+      countdown.setTarget({ date: countdownDate, timeZone: countdownZone.trim() });
+      countdown.start();
+    } catch (err) {
+      setCountdownError((err as Error).message);
+    }
+  };
+
+  const handleRecord = () => {
+    const size = RECORDING_SIZES.find((s) => s.id === recordSize)!;
+    setSnapshotError(null);
+    recorder
+      .record({
+        format: recordFormat,
+        width: size.width,
+        height: size.height,
+        duration: recordDuration,
+        fps: recordFps,
+        cues: recordingCues()
+      })
+      .then((blob) => downloadBlob(blob, `merry-christmas-${size.id}.${recordFormat}`))
+      .catch((err: Error) => setSnapshotError(err.message));
+  };
+
+  // Spell out a message with the particles
+  const handleTextSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = customText.trim();
+    if (!text) return;
+    setCustomError(null);
+    registerTextFormation(text)
+      .then(setFormation)
+      .catch((err: Error) => setCustomError(err.message));
+  };
+
+  // Rebuild a local photo or logo out of colored particles
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setCustomError(null);
+    registerImageFormation(file)
+      .then(setFormation)
+      .catch((err: Error) => setCustomError(err.message));
+  };
+
+  // Play a local audio file; the tree follows its beat
+  const handleMusicUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    music.loadFile(file);
+  };
+
+  // Trace an uploaded SVG logo with the particles
+  const handleSvgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setCustomError(null);
+    file.text()
+      .then((svg) => setFormation(registerSvgFormation(svg, file.name.replace(/\.svg$/i, ''))))
+      .catch((err: Error) => setCustomError(err.message));
+  };
 
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-8 z-10">
@@ -16,11 +191,61 @@ export const Overlay: React.FC<OverlayProps> = ({ treeState, setTreeState }) =>
         <h1 
           className="text-5xl md:text-7xl font-serif text-arix-gold tracking-tighter uppercase leading-none"
           style={{
-            textShadow: '0 0 25px rgba(212, 175, 55, 0.5), 0 0 50px rgba(212, 175, 55, 0.3)'
+            textShadow: '0 0 25px rgb(var(--arix-gold) / 0.5), 0 0 50px rgb(var(--arix-gold) / 0.3)'
           }}
         >
           Merry<br />Christmas
         </h1>
+
+        {/* Countdown: time left while running, and where to count to */}
+        {countdownState.running && (
+          <div className="mt-4 flex gap-4 font-serif text-arix-gold">
+            {(['days', 'hours', 'minutes', 'seconds'] as const).map((unit) => (
+              <div key={unit} className="flex flex-col items-center">
+                <span className="text-3xl md:text-4xl tabular-nums">
+                  {String(countdownState.remaining[unit]).padStart(unit === 'days' ? 1 : 2, '0')}
+                </span>
+                <span className="font-sans text-[10px] tracking-widest uppercase text-white/30">{unit}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="mt-4 flex flex-wrap items-center gap-2 max-w-md pointer-events-auto">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Countdown</span>
+          <input
+            type="datetime-local"
+            value={countdownDate}
+            onChange={(e) => setCountdownDate(e.target.value)}
+            disabled={countdownState.running}
+            className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs text-arix-gold disabled:opacity-50"
+          />
+          <input
+            value={countdownZone}
+            onChange={(e) => setCountdownZone(e.target.value)}
+            disabled={countdownState.running}
+            list="countdown-time-zones"
+            aria-label="Time zone"
+            className="w-36 px-2 py-1 bg-transparent border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs text-arix-gold disabled:opacity-50"
+          />
+          <datalist id="countdown-time-zones">
+            {timeZones.map((zone) => <option key={zone} value={zone} />)}
+          </datalist>
+          <button
+            onClick={handleCountdown}
+            className={`
+              px-2 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+              border ${countdownState.running 
+                ? 'border-arix-gold text-arix-gold' 
+                : 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50'}
+            `}
+          >
+            {countdownState.running ? 'Stop' : 'Start'}
+          </button>
+          {countdownError && <span className="w-full text-red-300/70 font-sans text-xs">{countdownError}</span>}
+        </div>
+        {configError && (
+          <pre className="mt-4 max-w-md text-red-300/70 font-sans text-xs whitespace-pre-wrap pointer-events-auto">{configError}</pre>
+        )}
       </header>
 
       {/* Footer Details (Bottom Left) */}
@@ -29,13 +254,325 @@ export const Overlay: React.FC<OverlayProps> = ({ treeState, setTreeState }) =>
         <p>LNG: 74.0060° W</p>
       </div>
 
+      {/* Save Image and Record (Top Right, under TUNE): render off-screen at a chosen size */}
+      <div className="absolute top-20 right-8 flex flex-col items-end gap-2 pointer-events-auto">
+        <div className="flex items-center gap-2">
+          <select
+            value={snapshotSize}
+            onChange={(e) => setSnapshotSize(e.target.value)}
+            className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold"
+          >
+            {SNAPSHOT_SIZES.map((s) => (
+              <option key={s.id} value={s.id}>{s.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-white/40 font-sans text-xs tracking-widest uppercase">
+            <input type="checkbox" checked={snapshotText} onChange={(e) => setSnapshotText(e.target.checked)} />
+            Text
+          </label>
+          <button
+            onClick={handleSaveImage}
+            className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300"
+          >
+            Save Image
+          </button>
+        </div>
+        {/* Record: renders every frame on a virtual clock, so the file plays smoothly on any device */}
+        <div className="flex flex-wrap justify-end items-center gap-2 max-w-md">
+          <select value={recordSequence} onChange={(e) => setRecordSequence(e.target.value as RecordSequence)} className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold">
+            <option value="both">Release + Assemble</option>
+            <option value="release">Release</option>
+            <option value="assemble">Assemble</option>
+            <option value="none">As is</option>
+          </select>
+          <select value={recordDuration} onChange={(e) => setRecordDuration(Number(e.target.value))} className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold">
+            {RECORD_DURATIONS.map((d) => (
+              <option key={d} value={d}>{d}s</option>
+            ))}
+          </select>
+          <select value={recordSize} onChange={(e) => setRecordSize(e.target.value)} className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold">
+            {RECORDING_SIZES.map((s) => (
+              <option key={s.id} value={s.id}>{s.label}</option>
+            ))}
+          </select>
+          <select value={recordFps} onChange={(e) => setRecordFps(Number(e.target.value))} className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold">
+            {RECORDING_FRAME_RATES.map((fps) => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+          <select value={recordFormat} onChange={(e) => setRecordFormat(e.target.value as RecordingFormat)} className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold">
+            <option value="webm">WebM</option>
+            <option value="gif">GIF</option>
+          </select>
+          <button
+            onClick={handleRecord}
+            className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300"
+          >
+            Record
+          </button>
+        </div>
+        {snapshotError && <p className="text-red-300/70 font-sans text-xs">{snapshotError}</p>}
+      </div>
+
+      {/* While recording the scene is rendered off-screen; block input so nothing moves the camera */}
+      {recording.recording && (
+        <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-4 bg-arix-dark/80 pointer-events-auto">
+          <p className="text-arix-gold font-serif text-2xl tracking-widest uppercase">
+            Recording {Math.round(recording.progress * 100)}%
+          </p>
+          <div className="w-64 h-1 bg-white/10">
+            <div className="h-full bg-arix-gold" style={{ width: `${recording.progress * 100}%` }} />
+          </div>
+          <button
+            onClick={recorder.cancel}
+            className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Advent card for the ornament just opened; click outside to close */}
+      {adventCard && (
+        <div
+          className="absolute inset-0 z-20 flex items-center justify-center bg-arix-dark/60 pointer-events-auto"
+          onClick={advent.close}
+        >
+          <div
+            className="max-w-sm mx-8 p-8 flex flex-col items-center gap-4 text-center bg-arix-dark/90 border border-arix-gold/30"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <p className="text-white/40 font-sans text-xs tracking-widest uppercase">December {adventCard.day}</p>
+            <h2 className="text-arix-gold font-serif text-2xl tracking-wide">{adventCard.title}</h2>
+            {adventCard.image && <img src={adventCard.image} alt="" className="max-h-48 max-w-full object-contain" />}
+            {adventCard.message && <p className="text-white/70 font-serif text-base leading-relaxed">{adventCard.message}</p>}
+            <button
+              onClick={advent.close}
+              className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Bottom Left (above the footer on larger screens): music, effects, fireworks, camera, quality */}
+      <div className="absolute bottom-8 md:bottom-20 left-8 flex flex-col items-start gap-3 pointer-events-auto">
+        {/* Music: the bundled carol or a local file; the tree pulses along */}
+        <div className="flex flex-wrap items-center gap-2 max-w-xs">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Music</span>
+          <button
+            onClick={music.toggle}
+            disabled={musicState.loading}
+            className={`
+              px-2 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+              border ${musicState.playing 
+                ? 'border-arix-gold text-arix-gold' 
+                : 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50'}
+            `}
+          >
+            {musicState.loading ? 'Loading' : musicState.playing ? 'Pause' : 'Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={musicState.volume}
+            onChange={(e) => music.setVolume(Number(e.target.value))}
+            className="w-20 accent-arix-gold"
+            aria-label="Volume"
+          />
+          <label className="px-2 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300 cursor-pointer">
+            Load
+            <input type="file" accept="audio/*" className="hidden" onChange={handleMusicUpload} />
+          </label>
+          {musicState.track && (
+            <span className="w-full text-white/30 font-sans text-xs truncate">{musicState.track}</span>
+          )}
+          {musicState.error && <span className="w-full text-red-300/70 font-sans text-xs">{musicState.error}</span>}
+        </div>
+
+        {/* Sound effects for releasing / assembling; the choice is remembered */}
+        <div className="flex flex-wrap items-center gap-2 max-w-xs">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Effects</span>
+          <button
+            onClick={() => sfx.setMuted(!muted)}
+            className={`
+              px-2 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+              border ${muted 
+                ? 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50' 
+                : 'border-arix-gold text-arix-gold'}
+            `}
+          >
+            {muted ? 'Muted' : 'On'}
+          </button>
+        </div>
+
+        {/* Fireworks: launch one here, or double-click the sky */}
+        <div className="flex flex-wrap items-center gap-2 max-w-xs">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Fireworks</span>
+          <select
+            value={pattern}
+            onChange={(e) => fireworks.setPattern(e.target.value as FireworkPattern)}
+            className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold"
+          >
+            {FIREWORK_PATTERNS.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fireworks.launch()}
+            className="px-2 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300"
+          >
+            Launch
+          </button>
+        </div>
+
+        {/* Camera shots and the looping tour; dragging the scene takes back control */}
+        <div className="flex flex-wrap items-center gap-2 max-w-xs">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Camera</span>
+          {TOUR_SHOTS.map((id) => (
+            <button
+              key={id}
+              onClick={() => director.play(id)}
+              className={`
+                px-2 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+                border ${camera.shot === id 
+                  ? 'border-arix-gold text-arix-gold' 
+                  : 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50'}
+              `}
+            >
+              {CAMERA_SHOTS[id].label}
+            </button>
+          ))}
+          <button
+            onClick={() => director.setMode(camera.mode === 'tour' ? 'follow' : 'tour')}
+            className={`
+              px-2 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+              border ${camera.mode === 'tour' 
+                ? 'border-arix-gold bg-arix-gold text-arix-dark' 
+                : 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50'}
+            `}
+          >
+            {camera.mode === 'tour' ? 'Stop Tour' : 'Tour'}
+          </button>
+        </div>
+
+        {/* Quality override */}
+        <div className="flex items-center gap-2">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Quality</span>
+          <select
+            value={qualityMode}
+            onChange={(e) => setQualityMode(e.target.value as QualityMode)}
+            className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold"
+          >
+            <option value="auto">Auto ({QUALITY_TIERS.find((t) => t.id === qualityTier)?.label})</option>
+            {QUALITY_TIERS.map((t) => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       {/* Controls (Moved to Bottom Right) */}
       <div className="absolute bottom-8 right-8 flex flex-col items-end pointer-events-auto">
+        {/* Theme picker: recolors scene and UI with a cross-fade */}
+        <div className="flex flex-wrap justify-end gap-2 mb-4 max-w-xs">
+          {THEMES.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => theme.set(t.id)}
+              className={`
+                flex items-center gap-2 px-3 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+                border ${t.id === activeTheme.id 
+                  ? 'border-arix-gold text-arix-gold' 
+                  : 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50'}
+              `}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ background: t.accent }} />
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Formation picker: lists whatever formations are registered */}
+        <div className="flex flex-wrap justify-end gap-2 mb-4 max-w-xs">
+          {formations.map((f) => (
+            <button
+              key={f.id}
+              onClick={() => setFormation(f.id)}
+              className={`
+                px-3 py-1 font-sans text-xs tracking-widest uppercase transition-colors duration-300
+                border ${f.id === formation 
+                  ? 'border-arix-gold text-arix-gold' 
+                  : 'border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50'}
+              `}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Scatter style for RELEASE, and how particles arrive when assembling */}
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Release</span>
+          <select
+            value={releaseTo}
+            onChange={(e) => setReleaseTo(e.target.value)}
+            className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold"
+          >
+            {releasedFormations.map((f) => (
+              <option key={f.id} value={f.id}>{f.label}</option>
+            ))}
+          </select>
+          <span className="text-white/30 font-sans text-xs tracking-widest uppercase">Arrival</span>
+          <select
+            value={choreography}
+            onChange={(e) => handleChoreography(e.target.value as Choreography)}
+            className="px-2 py-1 bg-arix-dark border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold"
+          >
+            {CHOREOGRAPHIES.map((c) => (
+              <option key={c.id} value={c.id}>{c.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Custom text / logo formations */}
+        <form onSubmit={handleTextSubmit} className="flex items-center gap-2 mb-4">
+          <input
+            value={customText}
+            onChange={(e) => setCustomText(e.target.value)}
+            placeholder="HAPPY 2027"
+            maxLength={24}
+            className="w-36 px-3 py-1 bg-transparent border border-white/10 focus:border-arix-gold/50 outline-none font-sans text-xs tracking-widest uppercase text-arix-gold placeholder-white/20"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300"
+          >
+            Form
+          </button>
+          <label className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300 cursor-pointer">
+            SVG
+            <input type="file" accept=".svg,image/svg+xml" onChange={handleSvgUpload} className="hidden" />
+          </label>
+          <label className="px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300 cursor-pointer">
+            Image
+            <input type="file" accept="image/png,image/jpeg,image/webp,image/gif" onChange={handleImageUpload} className="hidden" />
+          </label>
+        </form>
+        {customError && (
+          <p className="text-red-300/70 font-sans text-xs mb-4 max-w-xs text-right">{customError}</p>
+        )}
+
+        {/* The countdown holds the scene until zero; picking a formation above takes it back */}
         <button
-          onClick={() => setTreeState(isTree ? TreeState.SCATTERED : TreeState.TREE_SHAPE)}
+          onClick={() => setFormation(isTree ? releaseTo : DEFAULT_FORMATION)}
+          disabled={countdownState.steering}
           className={`
             group relative px-8 py-4 bg-transparent overflow-hidden transition-all duration-500
-            border border-arix-gold/50 hover:border-arix-gold
+            border border-arix-gold/50 hover:border-arix-gold disabled:opacity-50 disabled:pointer-events-none
           `}
         >
           {/* Fill effect */}
@@ -48,7 +585,7 @@ export const Overlay: React.FC<OverlayProps> = ({ treeState, setTreeState }) =>
             relative z-10 font-serif text-xl tracking-widest transition-colors duration-300
             ${isTree ? 'text-arix-dark' : 'text-arix-gold'}
           `}>
-            {isTree ? 'RELEASE' : 'ASSEMBLE'}
+            {countdownState.steering ? 'GATHERING' : isTree ? 'RELEASE' : 'ASSEMBLE'}
           </span>
         </button>
         
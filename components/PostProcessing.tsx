@@ -1,18 +1,145 @@
-import React from 'react';
-import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
-import { BlendFunction } from 'postprocessing';
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import {
+  EffectComposer,
+  Bloom,
+  ChromaticAberration,
+  DepthOfField,
+  GodRays,
+  Vignette,
+  Noise,
+  Sepia
+} from '@react-three/postprocessing';
+import {
+  BlendFunction,
+  BloomEffect,
+  ChromaticAberrationEffect,
+  DepthOfFieldEffect,
+  EffectComposer as EffectComposerImpl,
+  GodRaysEffect
+} from 'postprocessing';
+import * as THREE from 'three';
+import { TreeState, PostProcessingConfig, CameraConfig, GrainPreset } from '../types';
+import { QualitySettings } from '../utils/quality';
+import { useTransition } from '../hooks/useTransition';
+import { useSceneRenderer } from '../hooks/useSnapshot';
+
+interface GrainStyle {
+  opacity: number;
+  blendFunction: BlendFunction;
+  premultiply: boolean;
+  sepia: number; // Warm, faded tint; 0 = off
+}
+
+export const GRAIN_STYLES: Record<GrainPreset, GrainStyle> = {
+  none: { opacity: 0, blendFunction: BlendFunction.OVERLAY, premultiply: false, sepia: 0 },
+  subtle: { opacity: 0.02, blendFunction: BlendFunction.OVERLAY, premultiply: false, sepia: 0 },
+  film: { opacity: 0.06, blendFunction: BlendFunction.SOFT_LIGHT, premultiply: true, sepia: 0 },
+  vintage: { opacity: 0.12, blendFunction: BlendFunction.OVERLAY, premultiply: false, sepia: 0.35 }
+};
+
+interface PostProcessingProps {
+  treeState: TreeState;
+  config: PostProcessingConfig;
+  camera: CameraConfig;
+  // Glowing core of the star; source of the god rays
+  sun: THREE.Mesh | null;
+  quality: QualitySettings; // Which passes the device can afford
+}
+
+export const PostProcessing: React.FC<PostProcessingProps> = ({ treeState, config, camera, sun, quality }) => {
+  const { bloom, chromaticAberration, depthOfField, godRays, grain, vignette } = config;
+  const grainStyle = GRAIN_STYLES[grain];
+  const standard = quality.effects !== 'minimal';
+  const full = quality.effects === 'full';
+  const transition = useTransition();
+
+  const bloomRef = useRef<BloomEffect>(null);
+  const aberrationRef = useRef<ChromaticAberrationEffect>(null);
+  const dofRef = useRef<DepthOfFieldEffect>(null);
+  const godRaysRef = useRef<GodRaysEffect>(null);
+  const composerRef = useRef<EffectComposerImpl>(null);
+
+  // Eased 0 -> 1 amounts, so effects swell and settle instead of popping
+  const burst = useRef(0);
+  const closeness = useRef(0);
+
+  useFrame((state, delta) => {
+    burst.current = THREE.MathUtils.damp(burst.current, transition.isBursting ? 1 : 0, 4, delta);
+
+    // How far the camera has flown into the released cloud
+    const distance = state.camera.position.length();
+    const span = Math.max(camera.treeDistance - camera.scatterDistance, 0.001);
+    const flownIn = THREE.MathUtils.clamp((camera.treeDistance - distance) / span, 0, 1);
+    const target = treeState === TreeState.SCATTERED ? flownIn : 0;
+    closeness.current = THREE.MathUtils.damp(closeness.current, target, 3, delta);
+
+    if (bloomRef.current) {
+      bloomRef.current.intensity = THREE.MathUtils.lerp(bloom.intensity, bloom.burstIntensity, burst.current);
+    }
+    if (aberrationRef.current) {
+      const offset = THREE.MathUtils.lerp(chromaticAberration.offset, chromaticAberration.burstOffset, burst.current);
+      aberrationRef.current.offset.set(offset, offset);
+    }
+    if (dofRef.current) {
+      // The nearest particles of the cloud sit a few units in front of the lens
+      dofRef.current.cocMaterial.focusDistance = depthOfField.focusDistance;
+      dofRef.current.cocMaterial.focusRange = depthOfField.focusRange;
+      dofRef.current.bokehScale = depthOfField.bokehScale * closeness.current;
+    }
+  });
+
+  // Off-screen renders for Save Image and recordings
+  const blurRefs = useMemo(() => [bloomRef, dofRef, godRaysRef], []);
+  useSceneRenderer(composerRef, blurRefs);
 
-export const PostProcessing = () => {
   return (
-    <EffectComposer disableNormalPass>
-      <Bloom 
-        luminanceThreshold={0.8} // Only very bright things glow (gold highlights, lights)
-        mipmapBlur 
-        intensity={1.5} 
-        radius={0.6}
+    // God rays render an extra pass that needs the composer not to auto-clear
+    <EffectComposer ref={composerRef} autoClear={false} multisampling={quality.multisampling}>
+      <Bloom
+        ref={bloomRef}
+        luminanceThreshold={bloom.threshold} // Only very bright things glow (gold highlights, lights)
+        mipmapBlur={quality.mipmapBloom}
+        intensity={bloom.intensity}
+        radius={bloom.radius}
       />
-      <Noise opacity={0.02} blendFunction={BlendFunction.OVERLAY} />
-      <Vignette eskil={false} offset={0.1} darkness={0.6} />
+      {standard && (
+        <ChromaticAberration
+          ref={aberrationRef}
+          offset={[chromaticAberration.offset, chromaticAberration.offset]}
+          radialModulation
+          modulationOffset={0.2}
+        />
+      )}
+      {full && depthOfField.enabled && (
+        <DepthOfField
+          ref={dofRef}
+          worldFocusDistance={depthOfField.focusDistance}
+          worldFocusRange={depthOfField.focusRange}
+          bokehScale={0}
+        />
+      )}
+      {full && godRays.enabled && sun && (
+        <GodRays
+          ref={godRaysRef}
+          sun={sun}
+          density={godRays.density}
+          decay={godRays.decay}
+          weight={godRays.weight}
+          exposure={godRays.exposure}
+          samples={godRays.samples}
+          blur
+        />
+      )}
+      {standard && grainStyle.sepia > 0 && <Sepia intensity={grainStyle.sepia} />}
+      {standard && (
+        <Noise
+          opacity={grainStyle.opacity}
+          premultiply={grainStyle.premultiply}
+          blendFunction={grainStyle.blendFunction}
+        />
+      )}
+      <Vignette eskil={false} offset={vignette.offset} darkness={vignette.darkness} />
     </EffectComposer>
   );
-};
\ No newline at end of file
+};
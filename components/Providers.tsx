@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface ProvidersProps {
+  // Context providers, outermost first; values come from the elements' props
+  providers: React.ReactElement<{ children?: React.ReactNode }>[];
+  children: React.ReactNode;
+}
+
+// Nests each provider inside the one before it, so providing another
+// controller to the scene and UI is one line in App
+export const Providers: React.FC<ProvidersProps> = ({ providers, children }) => (
+  <>
+    {providers.reduceRight<React.ReactNode>(
+      (inner, provider) => React.cloneElement(provider, undefined, inner),
+      children
+    )}
+  </>
+);
@@ -0,0 +1,195 @@
+import React, { useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SnowConfig } from '../types';
+import { createRng } from '../utils/random';
+import { useTransition } from '../hooks/useTransition';
+
+// Every flake's position is a function of time, so the CPU only moves a few
+// uniforms. A flake falls from the top of the volume, rests on the ground
+// while it melts, then starts again from the top.
+const vertexShader = `
+  uniform float uTime;
+  uniform vec2 uWind;       // Units per second across the ground
+  uniform vec2 uDrift;      // Wind integrated over time (so changing it doesn't jump)
+  uniform float uTurbulence;
+  uniform float uSwirl;     // 0 = falling, 1 = swirling with the released tree
+  uniform float uSpin;      // Swirl clock, runs faster during the burst
+  uniform float uGround;
+  uniform float uHeight;    // Fall height above the ground
+  uniform float uArea;      // Half-width of the (wrapping) snow volume
+
+  attribute vec3 aHome;     // xz: spot in the volume (-1 -> 1), y: swirl height (0 -> 1)
+  attribute float aSpeed;   // Fall speed, units per second
+  attribute float aSize;
+  attribute float aPhase;   // 0 -> 1 through the flake's cycle
+
+  varying float vAlpha;
+
+  const float SETTLE = 4.0; // Seconds a flake lies on the ground before melting away
+
+  vec2 rotate2d(vec2 v, float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return vec2(c * v.x - s * v.y, s * v.x + c * v.y);
+  }
+
+  vec2 wrapArea(vec2 p) {
+    return mod(p + uArea, 2.0 * uArea) - uArea;
+  }
+
+  void main() {
+    float fall = uHeight / aSpeed;
+    float cycle = fall + SETTLE;
+    float t = mod(uTime + aPhase * cycle, cycle);
+    float airborne = min(t, fall);
+    float landed = max(t - fall, 0.0);
+
+    // Wind only carries flakes in the air; settled ones stay where they landed.
+    // Sway is sampled at the airborne time, so it freezes on landing too.
+    vec2 drift = uDrift - uWind * landed;
+    vec2 sway = uTurbulence * vec2(
+      sin(airborne * 0.9 + aPhase * 40.0) + 0.5 * sin(airborne * 2.3 + aPhase * 17.0),
+      cos(airborne * 0.7 + aPhase * 31.0) + 0.5 * sin(airborne * 1.9 + aPhase * 23.0)
+    );
+    vec2 xz = wrapArea(aHome.xz * uArea + drift + sway);
+    vec3 falling = vec3(xz.x, uGround + max(uHeight - aSpeed * airborne, 0.02), xz.y);
+
+    // Scattered: a tornado around the tree's axis, like the released foliage
+    vec2 home = aHome.xz * uArea * 0.5;
+    float r = length(home);
+    vec2 spun = rotate2d(home, uSpin * 1.6 / (0.6 + r * 0.25));
+    float lift = uGround + 1.0 + aHome.y * uHeight * 0.7 + sin(uTime * 0.8 + aPhase * 40.0) * 0.8;
+    vec3 swirling = vec3(spun.x, lift, spun.y);
+
+    vec4 mvPosition = modelViewMatrix * vec4(mix(falling, swirling, uSwirl), 1.0);
+    gl_PointSize = aSize * (150.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Fade in at the top, melt away on the ground; swirling flakes stay lit
+    float alpha = smoothstep(0.0, 1.0, t) * (1.0 - landed / SETTLE);
+    vAlpha = mix(alpha, 1.0, uSwirl);
+  }
+`;
+
+const fragmentShader = `
+  varying float vAlpha;
+
+  void main() {
+    float r = length(gl_PointCoord.xy - vec2(0.5));
+    if (r > 0.5) discard;
+    // Soft edged flake, just under the bloom threshold
+    gl_FragColor = vec4(vec3(0.95), (1.0 - smoothstep(0.15, 0.5, r)) * vAlpha * 0.8);
+  }
+`;
+
+interface SnowfallProps {
+  count: number;
+  seed: number;
+  config: SnowConfig;
+  ground: number; // World y of the ground plane
+  height: number; // How far above the ground flakes start
+}
+
+// Half-width of the snow volume: wider than the view at the default distance
+const AREA = 20;
+
+export const Snowfall: React.FC<SnowfallProps> = ({ count, seed, config, ground, height }) => {
+  const transition = useTransition();
+
+  const { positions, homes, speeds, sizes, phases } = useMemo(() => {
+    const hom = new Float32Array(count * 3);
+    const spd = new Float32Array(count);
+    const sz = new Float32Array(count);
+    const phs = new Float32Array(count);
+    const rng = createRng(seed);
+
+    for (let i = 0; i < count; i++) {
+      hom[i * 3] = rng() * 2 - 1;
+      hom[i * 3 + 1] = rng();
+      hom[i * 3 + 2] = rng() * 2 - 1;
+      // Big flakes fall a little faster
+      const size = 0.4 + Math.pow(rng(), 2) * 1.2;
+      sz[i] = size;
+      spd[i] = 0.8 + size * 0.5 + rng() * 0.3;
+      phs[i] = rng();
+    }
+    // Positions are computed in the shader; this only sets the vertex count
+    return { positions: new Float32Array(count * 3), homes: hom, speeds: spd, sizes: sz, phases: phs };
+  }, [count, seed]);
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uWind: { value: new THREE.Vector2() },
+    uDrift: { value: new THREE.Vector2() },
+    uTurbulence: { value: 0 },
+    uSwirl: { value: 0 },
+    uSpin: { value: 0 },
+    uGround: { value: 0 },
+    uHeight: { value: 0 },
+    uArea: { value: AREA }
+  }), []);
+
+  useFrame((state, delta) => {
+    const [windX, windZ] = config.wind;
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uWind.value.set(windX, windZ);
+    // Kept within one wrap of the volume so it never loses precision
+    const drift = uniforms.uDrift.value;
+    drift.set(
+      THREE.MathUtils.euclideanModulo(drift.x + windX * delta, 2 * AREA),
+      THREE.MathUtils.euclideanModulo(drift.y + windZ * delta, 2 * AREA)
+    );
+    uniforms.uTurbulence.value = config.turbulence;
+    uniforms.uSwirl.value = 1 - transition.gather;
+    uniforms.uSpin.value += delta * transition.burst;
+    uniforms.uGround.value = ground;
+    uniforms.uHeight.value = height;
+  });
+
+  return (
+    // Flakes are placed in the shader, so the CPU-side bounds are meaningless
+    <points frustumCulled={false}>
+      {/* New arrays for a new count need new attributes, or the GPU keeps the old ones */}
+      <bufferGeometry key={count}>
+        <bufferAttribute
+          attach="attributes-position"
+          count={positions.length / 3}
+          array={positions}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-aHome"
+          count={homes.length / 3}
+          array={homes}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-aSpeed"
+          count={speeds.length}
+          array={speeds}
+          itemSize={1}
+        />
+        <bufferAttribute
+          attach="attributes-aSize"
+          count={sizes.length}
+          array={sizes}
+          itemSize={1}
+        />
+        <bufferAttribute
+          attach="attributes-aPhase"
+          count={phases.length}
+          array={phases}
+          itemSize={1}
+        />
+      </bufferGeometry>
+      <shaderMaterial
+        vertexShader={vertexShader}
+        fragmentShader={fragmentShader}
+        uniforms={uniforms}
+        transparent={true}
+        depthWrite={false}
+      />
+    </points>
+  );
+};
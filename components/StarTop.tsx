@@ -1,29 +1,56 @@
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useCallback, useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { getRandomSpherePoint } from '../utils/math';
-import { damp } from 'maath/easing';
+import { TreeSpec, SceneConfig } from '../types';
+import { useFormationMorph, getMorphPoint } from '../hooks/useFormationMorph';
+import { useTransition } from '../hooks/useTransition';
+import { useTheme } from '../hooks/useTheme';
+import { useMusic } from '../hooks/useMusic';
+import { useSfx } from '../hooks/useSfx';
+import { useCountdown } from '../hooks/useCountdown';
+import { getFormation } from '../utils/formations';
 
 interface StarTopProps {
-  treeState: TreeState;
+  seed: number;
+  spec: TreeSpec;
+  config: SceneConfig['star'];
+  // Called with the glowing core (the god-ray source) once it mounts
+  onCore?: (core: THREE.Mesh | null) => void;
 }
 
-export const StarTop: React.FC<StarTopProps> = ({ treeState }) => {
+export const StarTop: React.FC<StarTopProps> = ({ seed, spec, config, onCore }) => {
   const groupRef = useRef<THREE.Group>(null);
   const meshRef = useRef<THREE.Mesh>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+  const coreRef = useRef<THREE.Mesh | null>(null);
+  const setCore = useCallback((core: THREE.Mesh | null) => {
+    coreRef.current = core;
+    onCore?.(core);
+  }, [onCore]);
   
-  // Calculate positions
-  const { scatterPos, treePos } = useMemo(() => {
-    // Top of the tree is roughly at y = 7 (since height is 14 centered at 0)
-    // We add a little offset to sit perfectly on top
-    const treePos = new THREE.Vector3(0, 7.8, 0); 
-    const scatterPos = getRandomSpherePoint(12);
-    // Ensure scatter pos is somewhat high up so it doesn't fall into the floor too much
-    scatterPos.y = Math.abs(scatterPos.y) + 5; 
-    
-    return { scatterPos, treePos };
-  }, []);
+  // Each formation decides where its star sits (top of the tree, heart dip, ...)
+  const morph = useFormationMorph({ layer: 'star', count: 1, seed, spec });
+  const position = useMemo(() => new THREE.Vector3(), []);
+  const transition = useTransition();
+  const theme = useTheme();
+  const music = useMusic();
+  const sfx = useSfx();
+
+  const countdown = useCountdown();
+
+  // The star leads every morph, so its sounds come from it: a shimmer as it
+  // leaves, a chime that resolves as it lands (the end of the gather).
+  // A countdown's held gather stays quiet until it resumes.
+  useEffect(() => transition.onTransitionStart(({ to }) => {
+    if (!groupRef.current || transition.isHeld) return;
+    if (getFormation(to).released) sfx.shimmer(transition.remaining, groupRef.current);
+    else sfx.chime(transition.remaining, groupRef.current);
+  }), [transition, sfx]);
+
+  // Dimmed while a countdown runs, then ignites with a flash at zero
+  const power = useRef(1);
+  const ignition = useRef(0);
+  useEffect(() => countdown.onFinale(() => { ignition.current = 1; }), [countdown]);
 
   // Create 3D Star Geometry
   const starGeometry = useMemo(() => {
@@ -59,73 +86,70 @@ export const StarTop: React.FC<StarTopProps> = ({ treeState }) => {
     return geom;
   }, []);
 
-  const progress = useRef(0);
-  const burstRef = useRef(1.0);
-
-  // Handle Rotation Burst Logic
-  useEffect(() => {
-    if (treeState === TreeState.SCATTERED) {
-      // Accelerate rotation 2x
-      burstRef.current = 2.0;
-      
-      const timer = setTimeout(() => {
-        burstRef.current = 1.0;
-      }, 3000); // Lasts 3 seconds
-      
-      return () => clearTimeout(timer);
-    } else {
-      burstRef.current = 1.0;
-    }
-  }, [treeState]);
-
   useFrame((state, delta) => {
     if (!groupRef.current || !meshRef.current) return;
 
-    const isTree = treeState === TreeState.TREE_SHAPE;
-    // Scatter: 2.5 (Fastish), Tree: 1.0 (Elegant)
-    const dampSpeed = isTree ? 1.0 : 2.5;
+    const p = morph.gather;
 
-    // Damp progress
-    damp(progress, 'current', isTree ? 1 : 0, dampSpeed, delta);
-    const p = progress.current;
-
-    // Interpolate Position
-    const currentPos = new THREE.Vector3().lerpVectors(scatterPos, treePos, p);
+    // Interpolate Position (lands last under any choreography)
+    const currentPos = getMorphPoint(morph, 0, position);
     
     // Add hovering motion
-    const time = state.clock.getElapsedTime();
+    const time = state.clock.elapsedTime;
     currentPos.y += Math.sin(time * 2) * 0.1;
 
     groupRef.current.position.copy(currentPos);
 
     // Rotate the star mesh continuously to show off the 3D shape
     // Apply burst multiplier
-    meshRef.current.rotation.y += delta * 1.5 * burstRef.current; 
+    meshRef.current.rotation.y += delta * 1.5 * transition.burst; 
     meshRef.current.rotation.z = Math.sin(time * 1.5) * 0.1; // Gentle wobble
 
     // Scale up when formed, scale down slightly when scattered
     const scale = 1.0 * p + 0.4 * (1 - p);
     groupRef.current.scale.setScalar(scale);
+
+    // Follow the theme's star color (cross-fades with everything else)
+    const material = meshRef.current.material as THREE.MeshStandardMaterial;
+    material.color.copy(theme.palette.star);
+    material.emissive.copy(theme.palette.star);
+    power.current = THREE.MathUtils.damp(power.current, countdown.state.running ? 0.1 : 1, 3, delta);
+    ignition.current *= Math.exp(-delta * 1.5);
+    const lit = power.current * (1 + 4 * ignition.current);
+    // Beats flash the glow
+    material.emissiveIntensity = config.glow * lit * (1 + 1.5 * music.levels.beat * music.levels.active);
+    if (lightRef.current) {
+      lightRef.current.color.copy(theme.palette.star);
+      lightRef.current.intensity = config.lightIntensity * lit;
+    }
+    if (coreRef.current) (coreRef.current.material as THREE.MeshBasicMaterial).color.copy(theme.palette.star);
   });
 
   return (
     <group ref={groupRef}>
       <mesh ref={meshRef} geometry={starGeometry} castShadow>
         <meshStandardMaterial 
-          color="#FFD700"
-          emissive="#FFD700"
-          emissiveIntensity={3} // Very bright glow
+          color={config.color}
+          emissive={config.color}
+          emissiveIntensity={config.glow} // Very bright glow
           toneMapped={false} // Helps with bloom
           roughness={0.1}
           metalness={1}
         />
       </mesh>
       
+      {/* Glowing core: the god-ray source (must be transparent and not write depth) */}
+      <mesh ref={setCore}>
+        <sphereGeometry args={[0.3, 16, 16]} />
+        <meshBasicMaterial color={config.color} transparent depthWrite={false} toneMapped={false} />
+      </mesh>
+
       {/* Light emitted by the star */}
       <pointLight 
-        intensity={60} 
-        distance={15} 
-        color="#FFD700" 
+        ref={lightRef}
+        intensity={config.lightIntensity} 
+        distance={config.lightDistance} 
+        color={config.color} 
         decay={2}
       />
     </group>
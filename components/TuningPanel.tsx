@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { SceneConfig } from '../types';
+import { ENVIRONMENT_PRESETS, GRAIN_PRESETS, CAMERA_DISTANCE_LIMITS, parseSceneConfig } from '../utils/sceneConfig';
+import { downloadBlob } from '../utils/snapshot';
+
+interface TuningPanelProps {
+  config: SceneConfig;
+  setConfig: (config: SceneConfig) => void;
+}
+
+// --- Fields ---
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  live?: boolean; // False: apply once the drag or edit ends (counts that rebuild buffers)
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step = 0.01, live = true, onChange }) => {
+  // Value being dragged or typed in a non-live field
+  const [draft, setDraft] = useState<number | null>(null);
+  const set = (v: number) => (live ? onChange(v) : setDraft(v));
+  const commit = () => {
+    if (draft === null) return;
+    onChange(draft);
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center gap-2 py-0.5">
+      <span className="w-24 shrink-0 text-white/50">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={draft ?? value}
+        onChange={(e) => set(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="flex-1 accent-arix-gold"
+      />
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={draft ?? value}
+        // Out-of-range typing is clamped so the config always stays loadable
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (e.target.value !== '' && Number.isFinite(v)) set(Math.min(max, Math.max(min, v)));
+        }}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        onBlur={commit}
+        className="w-16 px-1 bg-transparent border border-white/10 text-right text-arix-gold"
+      />
+    </label>
+  );
+};
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 py-0.5">
+    <span className="w-24 shrink-0 text-white/50">{label}</span>
+    <input
+      type="color"
+      // The color input only understands #rrggbb
+      value={value.length === 4 ? `#${value[1]}${value[1]}${value[2]}${value[2]}${value[3]}${value[3]}` : value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-8 h-5 bg-transparent border-0"
+    />
+    <span className="text-white/30">{value}</span>
+  </label>
+);
+
+const ToggleField: React.FC<{ label: string; value: boolean; onChange: (value: boolean) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 py-0.5">
+    <span className="w-24 shrink-0 text-white/50">{label}</span>
+    <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} className="accent-arix-gold" />
+  </label>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mb-4">
+    <h3 className="mb-1 text-arix-gold tracking-widest uppercase">{title}</h3>
+    {children}
+  </section>
+);
+
+// Developer panel for editing the scene config live. Toggle with the TUNE
+// button or the ` key; export saves a JSON file that ?scene= or Import loads back.
+export const TuningPanel: React.FC<TuningPanelProps> = ({ config, setConfig }) => {
+  const [open, setOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== '`' || e.target instanceof HTMLInputElement) return;
+      setOpen((o) => !o);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  // Every edit works on a copy so React sees a new config
+  const edit = (change: (draft: SceneConfig) => void) => {
+    const next = structuredClone(config);
+    change(next);
+    setConfig(next);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(config, null, 2) + '\n'], { type: 'application/json' });
+    downloadBlob(blob, 'tree-config.json');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    file.text()
+      .then((json) => setConfig(parseSceneConfig(json)))
+      .catch((err: Error) => setImportError(err.message));
+  };
+
+  const buttonClass = 'px-3 py-1 font-sans text-xs tracking-widest uppercase border border-white/10 text-white/40 hover:text-arix-gold hover:border-arix-gold/50 transition-colors duration-300 cursor-pointer';
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className={`absolute top-8 right-8 z-20 bg-arix-dark/60 ${buttonClass}`}>
+        Tune
+      </button>
+    );
+  }
+
+  const { foliage, spiral, snow, star, ornaments, lights, postProcessing, camera, transition } = config;
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 z-20 w-80 overflow-y-auto p-4 bg-arix-dark/90 border-l border-white/10 font-sans text-xs">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={handleExport} className={buttonClass}>Export</button>
+        <label className={buttonClass}>
+          Import
+          <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </label>
+        <button onClick={() => setOpen(false)} className={`ml-auto ${buttonClass}`}>Close</button>
+      </div>
+      {importError && (
+        <pre className="mb-4 text-red-300/70 whitespace-pre-wrap">{importError}</pre>
+      )}
+
+      <Section title="Scene">
+        <NumberField label="Foliage" value={foliage.count} min={0} max={20000} step={100} live={false}
+          onChange={(v) => edit((c) => { c.foliage.count = v; })} />
+        <NumberField label="Spiral lights" value={spiral.count} min={0} max={500} step={1} live={false}
+          onChange={(v) => edit((c) => { c.spiral.count = v; })} />
+        <label className="flex items-center gap-2 py-0.5">
+          <span className="w-24 shrink-0 text-white/50">Environment</span>
+          <select
+            value={config.environment}
+            onChange={(e) => edit((c) => { c.environment = e.target.value as SceneConfig['environment']; })}
+            className="flex-1 bg-arix-dark border border-white/10 text-arix-gold"
+          >
+            {ENVIRONMENT_PRESETS.map((preset) => <option key={preset} value={preset}>{preset}</option>)}
+          </select>
+        </label>
+      </Section>
+
+      <Section title="Snow">
+        <NumberField label="Flakes" value={snow.count} min={0} max={20000} step={100} live={false}
+          onChange={(v) => edit((c) => { c.snow.count = v; })} />
+        <NumberField label="Wind X" value={snow.wind[0]} min={-5} max={5} step={0.1}
+          onChange={(v) => edit((c) => { c.snow.wind[0] = v; })} />
+        <NumberField label="Wind Z" value={snow.wind[1]} min={-5} max={5} step={0.1}
+          onChange={(v) => edit((c) => { c.snow.wind[1] = v; })} />
+        <NumberField label="Turbulence" value={snow.turbulence} min={0} max={3} step={0.05}
+          onChange={(v) => edit((c) => { c.snow.turbulence = v; })} />
+      </Section>
+
+      <Section title="Star">
+        <ColorField label="Color" value={star.color} onChange={(v) => edit((c) => { c.star.color = v; })} />
+        <NumberField label="Glow" value={star.glow} min={0} max={10}
+          onChange={(v) => edit((c) => { c.star.glow = v; })} />
+        <NumberField label="Light" value={star.lightIntensity} min={0} max={300} step={1}
+          onChange={(v) => edit((c) => { c.star.lightIntensity = v; })} />
+        <NumberField label="Light reach" value={star.lightDistance} min={0} max={50} step={0.5}
+          onChange={(v) => edit((c) => { c.star.lightDistance = v; })} />
+      </Section>
+
+      <Section title="Ornaments">
+        {ornaments.map((group, i) => (
+          <div key={i} className="mb-2 pl-2 border-l border-white/10">
+            <p className="text-white/70">{group.name ?? `${group.type} #${i + 1}`}</p>
+            <NumberField label="Count" value={group.count} min={0} max={500} step={1} live={false}
+              onChange={(v) => edit((c) => { c.ornaments[i].count = v; })} />
+            <ColorField label="Color" value={group.color}
+              onChange={(v) => edit((c) => { c.ornaments[i].color = v; })} />
+            <NumberField label="Metalness" value={group.metalness ?? 0.8} min={0} max={1}
+              onChange={(v) => edit((c) => { c.ornaments[i].metalness = v; })} />
+            <NumberField label="Roughness" value={group.roughness ?? 0.2} min={0} max={1}
+              onChange={(v) => edit((c) => { c.ornaments[i].roughness = v; })} />
+            <NumberField label="Scale" value={group.scale ?? 1} min={0.05} max={3}
+              onChange={(v) => edit((c) => { c.ornaments[i].scale = v; })} />
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Lights">
+        {lights.map((light, i) => (
+          <div key={i} className="mb-2 pl-2 border-l border-white/10">
+            <p className="text-white/70">{light.type}</p>
+            <NumberField label="Intensity" value={light.intensity} min={0} max={light.type === 'ambient' ? 5 : 500} step={0.1}
+              onChange={(v) => edit((c) => { c.lights[i].intensity = v; })} />
+            <ColorField label="Color" value={light.color}
+              onChange={(v) => edit((c) => { c.lights[i].color = v; })} />
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Post-processing">
+        <NumberField label="Bloom threshold" value={postProcessing.bloom.threshold} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.bloom.threshold = v; })} />
+        <NumberField label="Bloom" value={postProcessing.bloom.intensity} min={0} max={5}
+          onChange={(v) => edit((c) => { c.postProcessing.bloom.intensity = v; })} />
+        <NumberField label="Bloom radius" value={postProcessing.bloom.radius} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.bloom.radius = v; })} />
+        <NumberField label="Burst bloom" value={postProcessing.bloom.burstIntensity} min={0} max={5}
+          onChange={(v) => edit((c) => { c.postProcessing.bloom.burstIntensity = v; })} />
+        <NumberField label="Aberration" value={postProcessing.chromaticAberration.offset} min={0} max={0.02} step={0.0005}
+          onChange={(v) => edit((c) => { c.postProcessing.chromaticAberration.offset = v; })} />
+        <NumberField label="Burst aberration" value={postProcessing.chromaticAberration.burstOffset} min={0} max={0.02} step={0.0005}
+          onChange={(v) => edit((c) => { c.postProcessing.chromaticAberration.burstOffset = v; })} />
+        <label className="flex items-center gap-2 py-0.5">
+          <span className="w-24 shrink-0 text-white/50">Grain</span>
+          <select
+            value={postProcessing.grain}
+            onChange={(e) => edit((c) => { c.postProcessing.grain = e.target.value as SceneConfig['postProcessing']['grain']; })}
+            className="flex-1 bg-arix-dark border border-white/10 text-arix-gold"
+          >
+            {GRAIN_PRESETS.map((preset) => <option key={preset} value={preset}>{preset}</option>)}
+          </select>
+        </label>
+        <NumberField label="Vignette offset" value={postProcessing.vignette.offset} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.vignette.offset = v; })} />
+        <NumberField label="Vignette" value={postProcessing.vignette.darkness} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.vignette.darkness = v; })} />
+      </Section>
+
+      <Section title="Depth of field">
+        <ToggleField label="Enabled" value={postProcessing.depthOfField.enabled}
+          onChange={(v) => edit((c) => { c.postProcessing.depthOfField.enabled = v; })} />
+        <NumberField label="Focus" value={postProcessing.depthOfField.focusDistance} min={0} max={30} step={0.1}
+          onChange={(v) => edit((c) => { c.postProcessing.depthOfField.focusDistance = v; })} />
+        <NumberField label="Focus range" value={postProcessing.depthOfField.focusRange} min={0.1} max={30} step={0.1}
+          onChange={(v) => edit((c) => { c.postProcessing.depthOfField.focusRange = v; })} />
+        <NumberField label="Bokeh" value={postProcessing.depthOfField.bokehScale} min={0} max={10} step={0.1}
+          onChange={(v) => edit((c) => { c.postProcessing.depthOfField.bokehScale = v; })} />
+      </Section>
+
+      <Section title="God rays">
+        <ToggleField label="Enabled" value={postProcessing.godRays.enabled}
+          onChange={(v) => edit((c) => { c.postProcessing.godRays.enabled = v; })} />
+        <NumberField label="Density" value={postProcessing.godRays.density} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.godRays.density = v; })} />
+        <NumberField label="Decay" value={postProcessing.godRays.decay} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.godRays.decay = v; })} />
+        <NumberField label="Weight" value={postProcessing.godRays.weight} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.godRays.weight = v; })} />
+        <NumberField label="Exposure" value={postProcessing.godRays.exposure} min={0} max={1}
+          onChange={(v) => edit((c) => { c.postProcessing.godRays.exposure = v; })} />
+      </Section>
+
+      <Section title="Camera">
+        <NumberField label="Tree distance" value={camera.treeDistance} {...CAMERA_DISTANCE_LIMITS} step={0.5}
+          onChange={(v) => edit((c) => { c.camera.treeDistance = v; })} />
+        <NumberField label="Scatter distance" value={camera.scatterDistance} {...CAMERA_DISTANCE_LIMITS} step={0.5}
+          onChange={(v) => edit((c) => { c.camera.scatterDistance = v; })} />
+        <NumberField label="Zoom speed" value={camera.zoomSpeed} min={0.1} max={10} step={0.1}
+          onChange={(v) => edit((c) => { c.camera.zoomSpeed = v; })} />
+      </Section>
+
+      <Section title="Transition">
+        <NumberField label="Assemble (s)" value={transition.gatherDuration} min={0} max={10} step={0.1}
+          onChange={(v) => edit((c) => { c.transition.gatherDuration = v; })} />
+        <NumberField label="Release (s)" value={transition.releaseDuration} min={0} max={10} step={0.1}
+          onChange={(v) => edit((c) => { c.transition.releaseDuration = v; })} />
+        <NumberField label="Burst" value={transition.burstStrength} min={0} max={10} step={0.1}
+          onChange={(v) => edit((c) => { c.transition.burstStrength = v; })} />
+        <NumberField label="Burst (s)" value={transition.burstDuration} min={0} max={10} step={0.1}
+          onChange={(v) => edit((c) => { c.transition.burstDuration = v; })} />
+      </Section>
+    </div>
+  );
+};
@@ -0,0 +1,16 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { AdventCalendar, AdventState } from '../utils/advent';
+
+export const AdventContext = createContext<AdventCalendar | null>(null);
+
+// The advent calendar; ornaments on the tree open days, the UI shows the cards
+export const useAdvent = (): AdventCalendar => {
+  const controller = useContext(AdventContext);
+  if (!controller) throw new Error('useAdvent must be used inside an AdventContext provider');
+  return controller;
+};
+
+// Unlocked / opened days and the open card as React state
+export const useAdventState = (controller: AdventCalendar): AdventState => {
+  return useSyncExternalStore(controller.onChange, () => controller.state);
+};
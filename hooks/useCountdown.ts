@@ -0,0 +1,16 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { CountdownController, CountdownState } from '../utils/countdown';
+
+export const CountdownContext = createContext<CountdownController | null>(null);
+
+// The scene-wide countdown; the scene ticks it, the finale lights the star and fireworks
+export const useCountdown = (): CountdownController => {
+  const controller = useContext(CountdownContext);
+  if (!controller) throw new Error('useCountdown must be used inside a CountdownContext provider');
+  return controller;
+};
+
+// Target and time left as React state (for UI); changes once a second while running
+export const useCountdownState = (controller: CountdownController): CountdownState => {
+  return useSyncExternalStore(controller.onChange, () => controller.state);
+};
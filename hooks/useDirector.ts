@@ -0,0 +1,16 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { CameraDirector, DirectorState } from '../utils/director';
+
+export const DirectorContext = createContext<CameraDirector | null>(null);
+
+// The scene-wide camera director; the scene ticks it, UI asks it for shots
+export const useDirector = (): CameraDirector => {
+  const director = useContext(DirectorContext);
+  if (!director) throw new Error('useDirector must be used inside a DirectorContext provider');
+  return director;
+};
+
+// Current mode and shot, as React state (for UI)
+export const useDirectorState = (director: CameraDirector): DirectorState => {
+  return useSyncExternalStore(director.onChange, () => director.state);
+};
@@ -0,0 +1,16 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { FireworksController, FireworksState } from '../utils/fireworks';
+
+export const FireworksContext = createContext<FireworksController | null>(null);
+
+// The scene-wide fireworks; anything can launch, the scene simulates and draws
+export const useFireworks = (): FireworksController => {
+  const controller = useContext(FireworksContext);
+  if (!controller) throw new Error('useFireworks must be used inside a FireworksContext provider');
+  return controller;
+};
+
+// Selected pattern as React state (for UI)
+export const useFireworksState = (controller: FireworksController): FireworksState => {
+  return useSyncExternalStore(controller.onChange, () => controller.state);
+};
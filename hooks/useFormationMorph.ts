@@ -0,0 +1,154 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { TreeSpec } from '../types';
+import {
+  Formation,
+  FormationId,
+  FormationLayer,
+  FULL_RANGE,
+  generateFormationLayout,
+  generateFormationColors,
+  getFormation
+} from '../utils/formations';
+import {
+  Choreography,
+  getParticleDelay,
+  getChoreographedProgress,
+  getChoreographyLift
+} from '../utils/choreography';
+import { useTransition } from './useTransition';
+
+export interface FormationMorph {
+  from: Float32Array;  // Where each point started the current transition
+  to: Float32Array;    // Where each point is heading
+  fromColor: Float32Array; // RGBA per point (A = palette override), only with `withColors`
+  toColor: Float32Array;
+  progress: number;    // 0 = at `from`, 1 = at `to`
+  gather: number;      // 0 = fully released, 1 = fully assembled (drives breathing, scale, etc.)
+  version: number;     // Bumped whenever `from`/`to` are rewritten
+  source: FormationId; // Formation the current transition left
+  target: FormationId;
+  choreography: Choreography; // Arrival order in effect this frame
+  layer: FormationLayer;
+  spec: TreeSpec;
+}
+
+interface MorphOptions {
+  layer: FormationLayer;
+  count: number;
+  seed: number;
+  spec: TreeSpec;
+  range?: [number, number];
+  withColors?: boolean;  // Also track per-point formation colors
+}
+
+interface Layout {
+  positions: Float32Array;
+  colors: Float32Array;
+}
+
+const NO_COLORS = new Float32Array(0);
+
+// Choreographed progress of point `index`: its own 0 -> 1 once delays apply
+export const getMorphPointProgress = (morph: FormationMorph, index: number): number => {
+  const { to, choreography, spec, layer, progress } = morph;
+  const i = index * 3;
+  const delay = getParticleDelay(choreography, to[i], to[i + 1], to[i + 2], spec, layer);
+  return getChoreographedProgress(progress, delay);
+};
+
+// Current position of point `index`, matching what the shaders draw
+export const getMorphPoint = (morph: FormationMorph, index: number, out: THREE.Vector3): THREE.Vector3 => {
+  const { from, to, choreography, spec } = morph;
+  const i = index * 3;
+  const local = getMorphPointProgress(morph, index);
+  return out.set(
+    from[i] + (to[i] - from[i]) * local,
+    from[i + 1] + (to[i + 1] - from[i + 1]) * local + getChoreographyLift(choreography, local, spec),
+    from[i + 2] + (to[i + 2] - from[i + 2]) * local
+  );
+};
+
+// Morphs a layer's points between whichever two formations the transition
+// controller is moving between. Retargeting mid-flight starts the new
+// transition from the current blend, so the scene never snaps.
+export const useFormationMorph = ({
+  layer,
+  count,
+  seed,
+  spec,
+  range = FULL_RANGE,
+  withColors = false
+}: MorphOptions): FormationMorph => {
+  const transition = useTransition();
+  const [minT, maxT] = range;
+
+  // Layouts are generated on demand and cached per formation. Keyed by the
+  // formation itself so re-registering an id (e.g. a new explosion) re-samples.
+  const layouts = useMemo(() => new Map<Formation, Layout>(), [layer, count, seed, spec, minT, maxT, withColors]);
+  const getLayout = (id: FormationId): Layout => {
+    const formation = getFormation(id);
+    let layout = layouts.get(formation);
+    if (!layout) {
+      const positions = generateFormationLayout(formation, layer, count, spec, seed, [minT, maxT]);
+      const colors = withColors
+        ? generateFormationColors(formation, layer, positions, spec, seed, [minT, maxT])
+        : NO_COLORS;
+      layout = { positions, colors };
+      layouts.set(formation, layout);
+    }
+    return layout;
+  };
+
+  const morph = useMemo<FormationMorph>(() => {
+    const start = getLayout(transition.from);
+    const end = getLayout(transition.to);
+    return {
+      from: start.positions.slice(),
+      to: end.positions.slice(),
+      fromColor: start.colors.slice(),
+      toColor: end.colors.slice(),
+      progress: transition.progress,
+      gather: transition.gather,
+      version: 0,
+      source: transition.from,
+      target: transition.to,
+      choreography: transition.choreography,
+      layer,
+      spec
+    };
+  }, [layouts]);
+
+  useFrame(() => {
+    if (morph.target !== transition.to) {
+      // Freeze the current blend (with each point's own delay) as the new starting point
+      const { from, fromColor, toColor } = morph;
+      const count = from.length / 3;
+      const hasColors = fromColor.length > 0;
+      const point = new THREE.Vector3();
+      for (let i = 0; i < count; i++) {
+        const local = getMorphPointProgress(morph, i);
+        getMorphPoint(morph, i, point).toArray(from, i * 3);
+        if (!hasColors) continue;
+        for (let c = 0; c < 4; c++) {
+          const j = i * 4 + c;
+          fromColor[j] += (toColor[j] - fromColor[j]) * local;
+        }
+      }
+      const next = getLayout(transition.to);
+      morph.to.set(next.positions);
+      toColor.set(next.colors);
+
+      morph.source = morph.target;
+      morph.target = transition.to;
+      morph.version++;
+    }
+
+    morph.progress = transition.progress;
+    morph.gather = transition.gather;
+    morph.choreography = transition.choreography;
+  });
+
+  return morph;
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { Formation, listFormations, subscribeFormations } from '../utils/formations';
+
+// Live list of registered formations, for UI that offers them as choices
+export const useFormations = (): Formation[] => {
+  return useSyncExternalStore(subscribeFormations, listFormations);
+};
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+
+// Everything hovered right now that asked for a pointer
+const hovering = new Set<object>();
+
+// Shows a pointer cursor while `hovered`. Shared, so one clickable thing
+// un-hovering (or unmounting) doesn't reset the cursor over another.
+export const useHoverCursor = (hovered: boolean) => {
+  useEffect(() => {
+    if (!hovered) return;
+    const token = {};
+    hovering.add(token);
+    document.body.style.cursor = 'pointer';
+    return () => {
+      hovering.delete(token);
+      if (hovering.size === 0) document.body.style.cursor = 'auto';
+    };
+  }, [hovered]);
+};
@@ -0,0 +1,16 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { MusicController, MusicState } from '../utils/music';
+
+export const MusicContext = createContext<MusicController | null>(null);
+
+// The scene-wide music controller; 3D layers read `levels` inside useFrame
+export const useMusic = (): MusicController => {
+  const controller = useContext(MusicContext);
+  if (!controller) throw new Error('useMusic must be used inside a MusicContext provider');
+  return controller;
+};
+
+// Playback state as React state (for UI)
+export const useMusicState = (controller: MusicController): MusicState => {
+  return useSyncExternalStore(controller.onChange, () => controller.state);
+};
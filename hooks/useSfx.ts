@@ -0,0 +1,16 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { SfxController, SfxState } from '../utils/sfx';
+
+export const SfxContext = createContext<SfxController | null>(null);
+
+// The scene-wide sound effects; layers trigger them on their own events
+export const useSfx = (): SfxController => {
+  const controller = useContext(SfxContext);
+  if (!controller) throw new Error('useSfx must be used inside a SfxContext provider');
+  return controller;
+};
+
+// Mute state as React state (for UI)
+export const useSfxState = (controller: SfxController): SfxState => {
+  return useSyncExternalStore(controller.onChange, () => controller.state);
+};
@@ -0,0 +1,113 @@
+import { createContext, useContext, useEffect, useSyncExternalStore } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer, Resolution } from 'postprocessing';
+import { SceneRenderer, SnapshotController } from '../utils/snapshot';
+import { Recorder, RecorderState } from '../utils/recording';
+
+export const SnapshotContext = createContext<SnapshotController | null>(null);
+
+// Bridge between the Save Image / Record UI and the renderer inside the Canvas
+export const useSnapshot = (): SnapshotController => {
+  const controller = useContext(SnapshotContext);
+  if (!controller) throw new Error('useSnapshot must be used inside a SnapshotContext provider');
+  return controller;
+};
+
+export const RecorderContext = createContext<Recorder | null>(null);
+
+export const useRecorder = (): Recorder => {
+  const recorder = useContext(RecorderContext);
+  if (!recorder) throw new Error('useRecorder must be used inside a RecorderContext provider');
+  return recorder;
+};
+
+// Whether a recording is running and how far along, as React state (for UI)
+export const useRecorderState = (recorder: Recorder): RecorderState => {
+  return useSyncExternalStore(recorder.onChange, () => recorder.state);
+};
+
+// Anything with a blur buffer sized relative to the output
+interface BlurEffect {
+  resolution: Resolution;
+}
+
+// Attaches the scene's renderer for off-screen output. Blurs are sized in
+// buffer pixels, so they keep their on-screen buffer size and the glow covers
+// the same share of the picture at any resolution.
+export const useSceneRenderer = (
+  composerRef: React.RefObject<EffectComposer | null>,
+  blurRefs: React.RefObject<BlurEffect | null>[]
+) => {
+  const snapshot = useSnapshot();
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    // Virtual time while the clock is manual
+    let time = 0;
+
+    const renderer: SceneRenderer = {
+      get canvas() { return get().gl.domElement; },
+
+      resize: (width, height) => {
+        const { gl, camera } = get();
+        const composer = composerRef.current;
+        if (!composer) throw new Error('The scene is still loading');
+        const max = gl.capabilities.maxTextureSize;
+        if (width > max || height > max) {
+          throw new Error(`This device can render images up to ${max}px per side`);
+        }
+
+        const view = camera as THREE.PerspectiveCamera;
+        const screen = gl.getSize(new THREE.Vector2());
+        const pixelRatio = gl.getPixelRatio();
+        const aspect = view.aspect;
+        const blurs = blurRefs.map((ref) => ref.current).filter((effect) => effect !== null);
+        const scales = blurs.map((effect) => effect.resolution.scale);
+        const shrink = Math.min(1, (screen.y * pixelRatio) / height);
+
+        blurs.forEach((effect, i) => { effect.resolution.scale = scales[i] * shrink; });
+        gl.setPixelRatio(1);
+        // No style update: the page layout stays put while rendering big
+        composer.setSize(width, height, false);
+        view.aspect = width / height;
+        view.updateProjectionMatrix();
+
+        return () => {
+          blurs.forEach((effect, i) => { effect.resolution.scale = scales[i]; });
+          gl.setPixelRatio(pixelRatio);
+          composer.setSize(screen.x, screen.y);
+          view.aspect = aspect;
+          view.updateProjectionMatrix();
+        };
+      },
+
+      render: () => {
+        const { gl } = get();
+        const composer = composerRef.current;
+        if (!composer) throw new Error('The scene is still loading');
+        // Same as the composer's own frame: god rays need autoClear off
+        const autoClear = gl.autoClear;
+        gl.autoClear = false;
+        composer.render(0);
+        gl.autoClear = autoClear;
+      },
+
+      setManualClock: (manual) => {
+        const { clock, setFrameloop } = get();
+        // Switching frameloop restarts the clock; carry the time across
+        const elapsed = manual ? clock.elapsedTime : time;
+        setFrameloop(manual ? 'never' : 'always');
+        clock.elapsedTime = elapsed;
+        time = elapsed;
+      },
+
+      advance: (delta) => {
+        time += delta;
+        get().advance(time);
+      }
+    };
+
+    return snapshot.attach(renderer);
+  }, [snapshot, get, composerRef, blurRefs]);
+};
@@ -0,0 +1,17 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { Theme, ThemeController } from '../utils/themes';
+
+export const ThemeContext = createContext<ThemeController | null>(null);
+
+// The scene-wide theme controller; 3D layers should read `palette` inside
+// useFrame so the cross-fade never re-renders them
+export const useTheme = (): ThemeController => {
+  const controller = useContext(ThemeContext);
+  if (!controller) throw new Error('useTheme must be used inside a ThemeContext provider');
+  return controller;
+};
+
+// Theme being shown (or faded to), as React state (for UI)
+export const useActiveTheme = (controller: ThemeController): Theme => {
+  return useSyncExternalStore(controller.onThemeChange, () => controller.theme);
+};
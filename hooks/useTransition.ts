@@ -0,0 +1,18 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { FormationId } from '../utils/formations';
+import { TransitionController } from '../utils/transition';
+
+export const TransitionContext = createContext<TransitionController | null>(null);
+
+// The scene-wide transition controller; per-frame readers should pull
+// values from it inside useFrame rather than re-rendering
+export const useTransition = (): TransitionController => {
+  const controller = useContext(TransitionContext);
+  if (!controller) throw new Error('useTransition must be used inside a TransitionContext provider');
+  return controller;
+};
+
+// Formation currently being morphed into, as React state (for UI)
+export const useTransitionTarget = (controller: TransitionController): FormationId => {
+  return useSyncExternalStore(controller.onTransitionStart, () => controller.to);
+};
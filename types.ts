@@ -1,9 +1,119 @@
+// Whether the current formation is released (energetic) or assembled (calm).
+// Derived from the active formation; see utils/formations.
 export enum TreeState {
   SCATTERED = 'SCATTERED',
   TREE_SHAPE = 'TREE_SHAPE'
 }
 
-export interface DualPosition {
-  scatterPos: [number, number, number];
-  treePos: [number, number, number];
-}
\ No newline at end of file
+// Radius multiplier for a normalized height t (0 = base, 1 = tip).
+// 1 means full base radius, 0 means the silhouette closes to a point.
+export type TreeProfile = (t: number) => number;
+
+// Shared description of the tree's silhouette. Every layer (foliage,
+// ornaments, spiral, star, hidden items) is laid out from this one spec.
+export interface TreeSpec {
+  height: number;                // Total height, centered on y = 0
+  baseRadius: number;            // Radius at the bottom of the tree
+  spirals: number;               // Turns of the foliage spiral from base to tip
+  taper: TreeProfile;            // Silhouette, sampled by every layer
+}
+
+// --- Scene configuration (see scenes/ and utils/sceneConfig) ---
+
+export type Vec3Tuple = [number, number, number];
+
+export type OrnamentType = 'box' | 'sphere' | 'diamond';
+
+// drei <Environment> presets
+export type EnvironmentPreset =
+  | 'apartment' | 'city' | 'dawn' | 'forest' | 'lobby'
+  | 'night' | 'park' | 'studio' | 'sunset' | 'warehouse';
+
+export interface OrnamentGroupConfig {
+  name?: string;                 // Shown in error messages and tools
+  type: OrnamentType;
+  count: number;
+  color: string;                 // Hex, e.g. "#8B0000"
+  metalness?: number;            // 0 - 1
+  roughness?: number;            // 0 - 1
+  scale?: number;                // Size multiplier
+  range?: [number, number];      // Normalized height band, 0 = base, 1 = tip
+}
+
+export type LightConfig =
+  | { type: 'ambient'; color: string; intensity: number }
+  | { type: 'point'; color: string; intensity: number; position: Vec3Tuple }
+  | {
+      type: 'spot';
+      color: string;
+      intensity: number;
+      position: Vec3Tuple;
+      angle: number;             // Radians
+      penumbra: number;          // 0 - 1
+      castShadow?: boolean;
+    };
+
+export type GrainPreset = 'none' | 'subtle' | 'film' | 'vintage';
+
+export interface PostProcessingConfig {
+  bloom: {
+    threshold: number;
+    intensity: number;
+    radius: number;
+    burstIntensity: number;      // Intensity during the release burst
+  };
+  chromaticAberration: {
+    offset: number;              // At rest
+    burstOffset: number;         // During the release burst
+  };
+  depthOfField: {                // Fades in as the camera flies into the cloud
+    enabled: boolean;
+    focusDistance: number;       // World units in front of the camera
+    focusRange: number;
+    bokehScale: number;
+  };
+  godRays: {                     // Light shafts from the star
+    enabled: boolean;
+    density: number;
+    decay: number;
+    weight: number;
+    exposure: number;
+    samples: number;
+  };
+  grain: GrainPreset;
+  vignette: { offset: number; darkness: number };
+}
+
+export interface CameraConfig {
+  treeDistance: number;          // Distance from the center when assembled
+  scatterDistance: number;       // ... and when released (inside the cloud)
+  zoomSpeed: number;             // Speed of the fly-in / out shot (5 / zoomSpeed seconds)
+}
+
+export interface TransitionConfig {
+  gatherDuration: number;        // Seconds to assemble
+  releaseDuration: number;       // Seconds to release
+  burstStrength: number;         // Spin multiplier right after a release
+  burstDuration: number;         // Seconds the burst lasts
+}
+
+export interface SnowConfig {
+  count: number;                 // Flakes in the air at once (density)
+  wind: [number, number];        // Drift across the ground, [x, z] units per second
+  turbulence: number;            // How far flakes sway around the wind
+}
+
+// Everything that makes one tree look the way it does, so new trees can be
+// shipped as data
+export interface SceneConfig {
+  environment: EnvironmentPreset;
+  foliage: { count: number };
+  spiral: { count: number };
+  snow: SnowConfig;
+  star: { color: string; glow: number; lightIntensity: number; lightDistance: number };
+  ornaments: OrnamentGroupConfig[];
+  lights: LightConfig[];
+  postProcessing: PostProcessingConfig;
+  camera: CameraConfig;
+  transition: TransitionConfig;
+}
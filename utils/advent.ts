@@ -0,0 +1,187 @@
+import { Clock, systemClock } from './countdown';
+import adventContent from '../content/advent.json';
+
+export const ADVENT_DAYS = 24;
+
+// What opening a day can do besides showing its card
+export type AdventSurprise = 'fireworks' | 'carol' | 'heart';
+
+const SURPRISES: readonly AdventSurprise[] = ['fireworks', 'carol', 'heart'];
+
+// One door of the calendar; see content/advent.json
+export interface AdventEntry {
+  day: number;               // 1 - 24, opens on that day of December
+  title: string;
+  message?: string;
+  image?: string;            // URL (or data: URL) shown under the message
+  surprise?: AdventSurprise;
+}
+
+export interface AdventState {
+  unlocked: number;          // Days 1..unlocked can be opened (0 outside December)
+  opened: number[];          // Days opened before, this year
+  showing: AdventEntry | null; // Card currently open
+}
+
+type Listener = (state: AdventState) => void;
+
+export interface AdventCalendar {
+  readonly state: AdventState; // Replaced on every change (safe as a React snapshot)
+  readonly entries: AdventEntry[]; // Indexed by day - 1
+
+  open: (day: number) => boolean; // False (and nothing shown) while the day is locked
+  close: () => void;
+  update: () => void;             // Reads the clock, so days unlock at midnight; call every frame
+
+  onOpen: (listener: (entry: AdventEntry) => void) => () => void;
+  onChange: (listener: Listener) => () => void;
+}
+
+// Thrown for content files that don't match; `issues` lists every problem found
+export class AdventContentError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid advent content:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'AdventContentError';
+    this.issues = issues;
+  }
+}
+
+// Checks a content file: one entry per day, each with a title and something to show
+export const validateAdventContent = (value: unknown): AdventEntry[] => {
+  const issues: string[] = [];
+  if (!Array.isArray(value)) throw new AdventContentError(['expected an array of days']);
+
+  const entries: AdventEntry[] = [];
+  value.forEach((item, i) => {
+    const path = `[${i}]`;
+    if (typeof item !== 'object' || item === null) {
+      issues.push(`${path}: expected an object`);
+      return;
+    }
+    const { day, title, message, image, surprise } = item as Record<string, unknown>;
+    if (typeof day !== 'number' || !Number.isInteger(day) || day < 1 || day > ADVENT_DAYS) {
+      issues.push(`${path}.day: expected a whole number from 1 to ${ADVENT_DAYS}`);
+    } else if (entries[day - 1]) {
+      issues.push(`${path}.day: day ${day} appears twice`);
+    }
+    if (typeof title !== 'string') issues.push(`${path}.title: expected a string`);
+    if (message !== undefined && typeof message !== 'string') issues.push(`${path}.message: expected a string`);
+    if (image !== undefined && typeof image !== 'string') issues.push(`${path}.image: expected a URL string`);
+    if (surprise !== undefined && !SURPRISES.includes(surprise as AdventSurprise)) {
+      issues.push(`${path}.surprise: expected one of ${SURPRISES.map((s) => `"${s}"`).join(', ')}`);
+    }
+    if (message === undefined && image === undefined && surprise === undefined) {
+      issues.push(`${path}: needs a message, image or surprise`);
+    }
+    if (typeof day === 'number' && day >= 1 && day <= ADVENT_DAYS) {
+      entries[day - 1] = { day, title: String(title), message, image, surprise } as AdventEntry;
+    }
+  });
+
+  for (let day = 1; day <= ADVENT_DAYS; day++) {
+    if (!entries[day - 1]) issues.push(`day ${day} is missing`);
+  }
+  if (issues.length > 0) throw new AdventContentError(issues);
+  return entries;
+};
+
+// Bundled calendar, checked at startup like the bundled scene
+export const DEFAULT_ADVENT_ENTRIES: AdventEntry[] = validateAdventContent(adventContent);
+
+// Last day that can be opened at `now` (local time): 0 before December
+export const getUnlockedDay = (now: number): number => {
+  const date = new Date(now);
+  return date.getMonth() === 11 ? Math.min(ADVENT_DAYS, date.getDate()) : 0;
+};
+
+// Opened days are kept per year, so next December starts fresh
+const storageKey = (year: number) => `arix-tree-advent-${year}`;
+
+const loadOpened = (year: number): number[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(year)) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((day): day is number => Number.isInteger(day)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveOpened = (year: number, opened: number[]) => {
+  try {
+    localStorage.setItem(storageKey(year), JSON.stringify(opened));
+  } catch {
+    // Storage can be unavailable (private mode); just don't remember
+  }
+};
+
+// A December calendar of ornaments: one more unlocks each day by the given
+// clock, and opening one shows its card and tells onOpen listeners (which
+// play its surprise).
+export const createAdventCalendar = (
+  entries: AdventEntry[] = DEFAULT_ADVENT_ENTRIES,
+  clock: Clock = systemClock
+): AdventCalendar => {
+  const listeners = new Set<Listener>();
+  const openListeners = new Set<(entry: AdventEntry) => void>();
+  let year = new Date(clock()).getFullYear();
+  let state: AdventState = {
+    unlocked: getUnlockedDay(clock()),
+    opened: loadOpened(year),
+    showing: null
+  };
+
+  const setState = (next: Partial<AdventState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const controller: AdventCalendar = {
+    get state() { return state; },
+    get entries() { return entries; },
+
+    open: (day) => {
+      const entry = entries[day - 1];
+      if (!entry || day > state.unlocked) return false;
+      let { opened } = state;
+      if (!opened.includes(day)) {
+        opened = [...opened, day].sort((a, b) => a - b);
+        saveOpened(year, opened);
+      }
+      setState({ opened, showing: entry });
+      openListeners.forEach((listener) => listener(entry));
+      return true;
+    },
+
+    close: () => {
+      if (state.showing) setState({ showing: null });
+    },
+
+    update: () => {
+      const now = clock();
+      const unlocked = getUnlockedDay(now);
+      if (unlocked === state.unlocked) return;
+      // New Year (or a new December) starts a new calendar
+      const nowYear = new Date(now).getFullYear();
+      if (nowYear !== year) {
+        year = nowYear;
+        setState({ unlocked, opened: loadOpened(year) });
+      } else {
+        setState({ unlocked });
+      }
+    },
+
+    onOpen: (listener) => {
+      openListeners.add(listener);
+      return () => { openListeners.delete(listener); };
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+
+  return controller;
+};
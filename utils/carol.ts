@@ -0,0 +1,95 @@
+// "We Wish You a Merry Christmas" (traditional), synthesized at load time so
+// the app ships no audio files. Written as one seamless loop: the pickup note
+// closes the last bar.
+
+export const CAROL_TITLE = 'We Wish You a Merry Christmas';
+
+const BPM = 160; // In 3/4
+
+// [pitch, beats]
+const MELODY: [string, number][] = [
+  ['G4', 1], ['G4', 0.5], ['A4', 0.5], ['G4', 0.5], ['F#4', 0.5],
+  ['E4', 1], ['E4', 1], ['E4', 1],
+  ['A4', 1], ['A4', 0.5], ['B4', 0.5], ['A4', 0.5], ['G4', 0.5],
+  ['F#4', 1], ['D4', 1], ['D4', 1],
+  ['B4', 1], ['B4', 0.5], ['C5', 0.5], ['B4', 0.5], ['A4', 0.5],
+  ['G4', 1], ['E4', 1], ['D4', 0.5], ['D4', 0.5],
+  ['E4', 1], ['A4', 1], ['F#4', 1],
+  ['G4', 2], ['D4', 1]
+];
+
+// [bass root, minor?, beats]
+const CHORDS: [string, boolean, number][] = [
+  ['G2', false, 3], ['C3', false, 3], ['A2', false, 3], ['D3', false, 3],
+  ['B2', false, 3], ['E2', true, 3], ['C3', false, 2], ['D3', false, 1], ['G2', false, 3]
+];
+
+const SEMITONES: Record<string, number> = {
+  C: 0, 'C#': 1, D: 2, 'D#': 3, E: 4, F: 5, 'F#': 6, G: 7, 'G#': 8, A: 9, 'A#': 10, B: 11
+};
+
+const midi = (pitch: string) => {
+  const match = /^([A-G]#?)(\d)$/.exec(pitch);
+  if (!match) throw new Error(`Bad pitch "${pitch}"`);
+  return SEMITONES[match[1]] + (Number(match[2]) + 1) * 12;
+};
+
+const frequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// Bells for the tune, a thump and bass on each chord, soft triads on the
+// off-beats. The thumps give the analyser clear beats to find.
+export const renderCarol = (sampleRate = 44100): Promise<AudioBuffer> => {
+  const beat = 60 / BPM;
+  const length = MELODY.reduce((sum, [, beats]) => sum + beats, 0) * beat;
+  const ctx = new OfflineAudioContext(2, Math.ceil(length * sampleRate), sampleRate);
+  const master = ctx.createGain();
+  master.gain.value = 0.5;
+  master.connect(ctx.destination);
+
+  const tone = (freq: number, start: number, duration: number, type: OscillatorType, peak: number) => {
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = freq;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(peak, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    osc.connect(gain).connect(master);
+    osc.start(start);
+    osc.stop(start + duration + 0.05);
+  };
+
+  const thump = (start: number) => {
+    const osc = ctx.createOscillator();
+    osc.frequency.setValueAtTime(110, start);
+    osc.frequency.exponentialRampToValueAtTime(45, start + 0.15);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.9, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+    osc.connect(gain).connect(master);
+    osc.start(start);
+    osc.stop(start + 0.3);
+  };
+
+  let time = 0;
+  MELODY.forEach(([pitch, beats]) => {
+    const f = frequency(midi(pitch));
+    tone(f, time, beats * beat * 1.2, 'triangle', 0.35);
+    tone(f * 2, time, beats * beat * 0.6, 'sine', 0.08); // Bell shimmer
+    time += beats * beat;
+  });
+
+  time = 0;
+  CHORDS.forEach(([root, minor, beats]) => {
+    const bass = midi(root);
+    thump(time);
+    tone(frequency(bass), time, beat * 0.9, 'sine', 0.6);
+    const triad = [12, minor ? 15 : 16, 19].map((interval) => frequency(bass + interval + 12));
+    for (let b = 1; b < beats; b++) {
+      triad.forEach((f) => tone(f, time + b * beat, beat * 0.7, 'sine', 0.06));
+    }
+    time += beats * beat;
+  });
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,96 @@
+import { TreeSpec } from '../types';
+import { FormationLayer } from './formations';
+
+// How the particles arrive when the scene assembles
+export type Choreography = 'uniform' | 'grow' | 'spiral' | 'rain' | 'implode';
+
+export const CHOREOGRAPHIES: { id: Choreography; label: string }[] = [
+  { id: 'uniform', label: 'Together' },
+  { id: 'grow', label: 'Grow' },
+  { id: 'spiral', label: 'Spiral' },
+  { id: 'rain', label: 'Rain' },
+  { id: 'implode', label: 'Implode' }
+];
+
+// Share of the transition spent staggering arrivals; the rest is each
+// particle's own travel time
+export const CHOREOGRAPHY_SPREAD = 0.6;
+
+// Turns of the MagicSpiral path the 'spiral' mode follows
+const SPIRAL_LOOPS = 4;
+
+// Index passed to the shaders as uChoreography
+export const getChoreographyIndex = (mode: Choreography): number => {
+  return CHOREOGRAPHIES.findIndex((c) => c.id === mode);
+};
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+// 0 = arrives first, 1 = arrives last, based on where the particle lands
+export const getParticleDelay = (
+  mode: Choreography,
+  x: number,
+  y: number,
+  z: number,
+  spec: TreeSpec,
+  layer: FormationLayer
+): number => {
+  if (mode === 'uniform') return 0;
+  // The star always lands last, crowning whatever came before it
+  if (layer === 'star') return 1;
+
+  const h = clamp01(y / spec.height + 0.5);
+  switch (mode) {
+    case 'grow':
+      return h;
+    case 'spiral': {
+      // Recover the position along the spiral path from height and angle
+      const a = ((Math.atan2(z, x) / (Math.PI * 2)) % 1 + 1) % 1;
+      const loop = Math.floor(h * SPIRAL_LOOPS - a + 0.5);
+      return clamp01((loop + a) / SPIRAL_LOOPS);
+    }
+    case 'rain':
+      return 1 - h;
+    case 'implode':
+      return 1 - clamp01(Math.hypot(x, z) / spec.baseRadius);
+  }
+};
+
+// Per-particle progress once its delay is applied
+export const getChoreographedProgress = (progress: number, delay: number): number => {
+  return clamp01((progress - delay * CHOREOGRAPHY_SPREAD) / (1 - CHOREOGRAPHY_SPREAD));
+};
+
+// Extra height added along the way ('rain' arcs up and falls into place)
+export const getChoreographyLift = (mode: Choreography, local: number, spec: TreeSpec): number => {
+  return mode === 'rain' ? Math.sin(local * Math.PI) * spec.height * 0.5 : 0;
+};
+
+// GLSL twin of the functions above, for the particle shaders.
+// Needs uChoreography (index) and uTreeSize (height, base radius).
+export const choreographyShaderChunk = `
+  uniform float uChoreography;
+  uniform vec2 uTreeSize;
+
+  float choreographyDelay(vec3 target) {
+    if (uChoreography < 0.5) return 0.0;
+
+    float h = clamp(target.y / uTreeSize.x + 0.5, 0.0, 1.0);
+    if (uChoreography < 1.5) return h;
+    if (uChoreography < 2.5) {
+      float a = fract(atan(target.z, target.x) / 6.2831853 + 1.0);
+      float loop = floor(h * ${SPIRAL_LOOPS.toFixed(1)} - a + 0.5);
+      return clamp((loop + a) / ${SPIRAL_LOOPS.toFixed(1)}, 0.0, 1.0);
+    }
+    if (uChoreography < 3.5) return 1.0 - h;
+    return 1.0 - clamp(length(target.xz) / uTreeSize.y, 0.0, 1.0);
+  }
+
+  float choreographedProgress(float progress, float delay) {
+    return clamp((progress - delay * ${CHOREOGRAPHY_SPREAD.toFixed(2)}) / ${(1 - CHOREOGRAPHY_SPREAD).toFixed(2)}, 0.0, 1.0);
+  }
+
+  float choreographyLift(float local) {
+    return (uChoreography > 2.5 && uChoreography < 3.5) ? sin(local * 3.14159265) * uTreeSize.x * 0.5 : 0.0;
+  }
+`;
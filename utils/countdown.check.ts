@@ -0,0 +1,57 @@
+// Plays a countdown through to its finale on a fake clock (npm run check)
+import assert from 'node:assert/strict';
+import { createTransitionController } from './transition';
+import { DEFAULT_FORMATION, INTRO_FORMATION } from './formations';
+import { createCountdown, resolveCountdownTarget } from './countdown';
+
+const target = { date: '2026-12-25T00:00', timeZone: 'Europe/London' };
+const zero = resolveCountdownTarget(target);
+assert.equal(zero, Date.UTC(2026, 11, 25));
+
+// An hour to go, then a minute at a time until past zero
+let now = zero - 60 * 60 * 1000;
+const transition = createTransitionController(DEFAULT_FORMATION);
+const countdown = createCountdown(transition, () => now);
+let finales = 0;
+countdown.onFinale(() => finales++);
+
+const frame = (ms: number) => {
+  now += ms;
+  countdown.update();
+  transition.update(ms / 1000);
+};
+
+countdown.setTarget(target);
+countdown.start();
+assert.equal(transition.to, INTRO_FORMATION);
+assert.deepEqual(countdown.state.remaining, { days: 0, hours: 1, minutes: 0, seconds: 0 });
+
+// Once released, held on the way to the tree and gathering as zero nears
+frame(60 * 1000); // Finishes the release
+frame(60 * 1000);
+assert.equal(transition.to, DEFAULT_FORMATION);
+assert.equal(transition.isHeld, true);
+const early = transition.gather;
+for (let i = 0; i < 45; i++) frame(60 * 1000);
+assert.equal(transition.isHeld, true);
+assert.ok(transition.gather > early && transition.gather < 1);
+assert.equal(finales, 0);
+
+// Picking a formation takes the scene back; the countdown stops holding it
+transition.start('heart');
+assert.equal(countdown.state.steering, false);
+for (let i = 0; i < 5; i++) frame(60 * 1000);
+assert.equal(transition.to, 'heart');
+assert.equal(transition.isHeld, false);
+
+// Zero: the finale plays once and the tree finishes assembling
+for (let i = 0; i < 10; i++) frame(60 * 1000);
+assert.equal(finales, 1);
+assert.equal(countdown.state.running, false);
+assert.equal(countdown.state.finished, true);
+assert.equal(transition.isHeld, false);
+assert.equal(transition.to, DEFAULT_FORMATION);
+assert.equal(transition.isActive, false);
+
+// Targets in the past can't be started
+assert.throws(() => countdown.start(), /already passed/);
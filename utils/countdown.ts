@@ -0,0 +1,224 @@
+import { TransitionController } from './transition';
+import { DEFAULT_FORMATION, INTRO_FORMATION, getFormation } from './formations';
+
+// Current time in epoch milliseconds; swapped out to fake the date
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+// A clock that starts at `start` and runs at real speed from there
+export const createOffsetClock = (start: number, clock: Clock = systemClock): Clock => {
+  const offset = start - clock();
+  return () => clock() + offset;
+};
+
+export interface CountdownTarget {
+  date: string;     // Wall-clock time there, "YYYY-MM-DDTHH:mm" (as from <input type="datetime-local">)
+  timeZone: string; // IANA name, e.g. "Europe/London"
+}
+
+export interface CountdownParts {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export interface CountdownState {
+  running: boolean;
+  steering: boolean;        // Holding the scene; off once someone picks another formation
+  finished: boolean;        // Reached zero (the finale has played)
+  target: CountdownTarget;
+  remaining: CountdownParts;
+}
+
+type Listener = (state: CountdownState) => void;
+
+export interface CountdownController {
+  readonly state: CountdownState; // Replaced on every change (safe as a React snapshot)
+
+  setTarget: (target: CountdownTarget) => void; // Throws on a bad date or time zone
+  start: () => void;                            // Throws if the target has passed
+  stop: () => void;
+  update: () => void;                           // Reads the clock; call every frame
+
+  onFinale: (listener: () => void) => () => void;
+  onChange: (listener: Listener) => () => void;
+}
+
+// The scene gathers from the start of the countdown to zero, up to
+// HELD_GATHER of the way; the finale plays the rest as a normal assemble
+const HELD_GATHER = 0.85;
+
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// How far ahead of UTC the zone's clocks are at `instant`, in ms
+const zoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric'
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall - Math.floor(instant / 1000) * 1000;
+};
+
+// Epoch ms of a wall-clock time in a time zone
+export const resolveCountdownTarget = ({ date, timeZone }: CountdownTarget): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(date);
+  if (!match) throw new Error(`"${date}" isn't a date and time like 2026-12-25T00:00`);
+  const [year, month, day, hour, minute, second] = match.slice(1).map((v) => Number(v ?? 0));
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  let offset: number;
+  try {
+    offset = zoneOffset(wall, timeZone);
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+  // Check the offset at the answer too, in case a DST change falls in between
+  const instant = wall - offset;
+  return wall - zoneOffset(instant, timeZone);
+};
+
+// Next Christmas morning (midnight) in the viewer's own time zone
+export const getDefaultCountdownTarget = (clock: Clock = systemClock): CountdownTarget => {
+  const timeZone = localTimeZone();
+  const now = clock();
+  const year = new Date(now).getFullYear();
+  const target = { date: `${year}-12-25T00:00`, timeZone };
+  return resolveCountdownTarget(target) > now ? target : { date: `${year + 1}-12-25T00:00`, timeZone };
+};
+
+export const splitCountdown = (ms: number): CountdownParts => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor(total / 3600) % 24,
+    minutes: Math.floor(total / 60) % 60,
+    seconds: total % 60
+  };
+};
+
+// ?countdown=2026-12-25T00:00&tz=Europe/London starts a countdown on load
+export const getUrlCountdown = (): CountdownTarget | null => {
+  const params = new URLSearchParams(window.location.search);
+  const date = params.get('countdown');
+  return date ? { date, timeZone: params.get('tz') ?? localTimeZone() } : null;
+};
+
+// ?now=2026-12-24T23:59:30Z pretends it's that time (to try out the finale)
+export const getUrlClock = (): Clock => {
+  const now = new URLSearchParams(window.location.search).get('now');
+  const start = now ? Date.parse(now) : NaN;
+  return Number.isNaN(start) ? systemClock : createOffsetClock(start);
+};
+
+// Counts down to a moment while holding the scene scattered, gathering it
+// as the moment nears. At zero it assembles the tree and tells finale
+// listeners (star, fireworks) to celebrate.
+export const createCountdown = (transition: TransitionController, clock: Clock = systemClock): CountdownController => {
+  const listeners = new Set<Listener>();
+  const finaleListeners = new Set<() => void>();
+  let target = getDefaultCountdownTarget(clock);
+  let targetTime = resolveCountdownTarget(target);
+  let startTime = 0;
+  let shownSecond = -1;
+  // Set while the countdown itself moves the transition, to tell its starts from anyone else's
+  let steeringTransition = false;
+  let state: CountdownState = {
+    running: false,
+    steering: false,
+    finished: false,
+    target,
+    remaining: splitCountdown(targetTime - clock())
+  };
+
+  const setState = (next: Partial<CountdownState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const steer = (move: () => void) => {
+    steeringTransition = true;
+    try {
+      move();
+    } finally {
+      steeringTransition = false;
+    }
+  };
+
+  // Picking a formation mid-countdown hands the scene back until the finale
+  transition.onTransitionStart(() => {
+    if (state.steering && !steeringTransition) setState({ steering: false });
+  });
+
+  const finale = () => {
+    setState({ running: false, steering: false, finished: true, remaining: splitCountdown(0) });
+    if (transition.isHeld) transition.resume();
+    else transition.start(DEFAULT_FORMATION);
+    finaleListeners.forEach((listener) => listener());
+  };
+
+  const controller: CountdownController = {
+    get state() { return state; },
+
+    setTarget: (next) => {
+      const time = resolveCountdownTarget(next);
+      target = next;
+      targetTime = time;
+      setState({ target, finished: false, remaining: splitCountdown(targetTime - clock()) });
+    },
+
+    start: () => {
+      const now = clock();
+      if (targetTime <= now) throw new Error('That time has already passed');
+      startTime = now;
+      // Scatter first; update() takes over once the release is done
+      if (!getFormation(transition.to).released) steer(() => transition.start(INTRO_FORMATION));
+      setState({ running: true, steering: true, finished: false });
+    },
+
+    stop: () => {
+      if (!state.running) return;
+      // Let a held gather finish rather than leave the tree half built
+      setState({ running: false, steering: false });
+      transition.resume();
+    },
+
+    update: () => {
+      if (!state.running) return;
+      const now = clock();
+      const left = targetTime - now;
+      if (left <= 0) {
+        finale();
+        return;
+      }
+
+      // UI only needs to hear about whole seconds
+      const second = Math.ceil(left / 1000);
+      if (second !== shownSecond) {
+        shownSecond = second;
+        setState({ remaining: splitCountdown(left) });
+      }
+
+      // Wait for a release in progress, then hold the gather where the clock says
+      if (!state.steering || (transition.isActive && !transition.isHeld)) return;
+      const approach = Math.min(1, (now - startTime) / Math.max(1, targetTime - startTime));
+      steer(() => transition.hold(DEFAULT_FORMATION, approach * HELD_GATHER));
+    },
+
+    onFinale: (listener) => {
+      finaleListeners.add(listener);
+      return () => { finaleListeners.delete(listener); };
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+
+  return controller;
+};
@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+import { TreeSpec, CameraConfig } from '../types';
+import { DEFAULT_FORMATION, getFormation } from './formations';
+import { Easing, EASINGS } from './transition';
+import { createRng } from './random';
+
+export type ShotId = 'assemble' | 'release' | 'orbit' | 'star' | 'gingerbread' | 'top';
+
+// 'follow' plays the assemble / release shot on every state change,
+// 'tour' loops through TOUR_SHOTS until the user grabs the camera
+export type DirectorMode = 'follow' | 'tour';
+
+// Where the camera is when a shot starts, and what it is framing
+export interface ShotContext {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  origin: THREE.Vector3; // World position of the tree group
+  spec: TreeSpec;
+  camera: CameraConfig;
+}
+
+export interface CameraKeyframe {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+export interface CameraShot {
+  id: ShotId;
+  label: string;
+  duration: (ctx: ShotContext) => number; // Seconds
+  easing: Easing;
+  // First keyframe should be the current camera so shots chain without cuts
+  keyframes: (ctx: ShotContext) => CameraKeyframe[];
+}
+
+// Horizontal direction from the tree to the camera (falls back to the front)
+const viewDirection = (ctx: ShotContext) => {
+  const dir = ctx.position.clone().sub(ctx.origin).setY(0);
+  return dir.lengthSq() > 1e-6 ? dir.normalize() : new THREE.Vector3(0, 0, 1);
+};
+
+const current = (ctx: ShotContext): CameraKeyframe => ({
+  position: ctx.position.clone(),
+  target: ctx.target.clone()
+});
+
+const starPosition = (ctx: ShotContext) => {
+  return new THREE.Vector3(0, ctx.spec.height / 2 + 0.8, 0).add(ctx.origin);
+};
+
+// Where the assembled tree hides its keepsake, in world space
+const keepsakePosition = (ctx: ShotContext) => {
+  const tree = getFormation(DEFAULT_FORMATION);
+  return tree.sample({ layer: 'keepsake', spec: ctx.spec, rng: createRng(0), range: [0, 1] }, 0, 1).add(ctx.origin);
+};
+
+// Keep the current angle, change only the distance (the classic fly-in / out)
+const distanceShot = (id: ShotId, label: string, distance: (c: CameraConfig) => number, easing: Easing): CameraShot => ({
+  id,
+  label,
+  easing,
+  duration: (ctx) => 5 / ctx.camera.zoomSpeed,
+  keyframes: (ctx) => {
+    const center = new THREE.Vector3();
+    const dir = ctx.position.clone().sub(center);
+    if (dir.lengthSq() < 1e-6) dir.set(0, 0, 1);
+    return [
+      current(ctx),
+      { position: dir.setLength(distance(ctx.camera)), target: center }
+    ];
+  }
+});
+
+export const CAMERA_SHOTS: Record<ShotId, CameraShot> = {
+  assemble: distanceShot('assemble', 'Assemble', (c) => c.treeDistance, EASINGS.easeInOutCubic),
+  // Fast "whoosh" into the cloud
+  release: distanceShot('release', 'Release', (c) => c.scatterDistance, EASINGS.easeOutCubic),
+
+  orbit: {
+    id: 'orbit',
+    label: 'Orbit',
+    easing: EASINGS.linear,
+    duration: () => 20,
+    keyframes: (ctx) => {
+      const steps = 8;
+      const dir = viewDirection(ctx);
+      const start = Math.atan2(dir.z, dir.x);
+      const y = THREE.MathUtils.clamp(ctx.position.y, 0, ctx.spec.height * 0.6);
+      const keyframes = [current(ctx)];
+      for (let i = 1; i <= steps; i++) {
+        const angle = start + (i / steps) * Math.PI * 2;
+        keyframes.push({
+          position: new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)).multiplyScalar(ctx.camera.treeDistance).setY(y),
+          target: new THREE.Vector3()
+        });
+      }
+      return keyframes;
+    }
+  },
+
+  star: {
+    id: 'star',
+    label: 'Star',
+    easing: EASINGS.easeInOutCubic,
+    duration: () => 5,
+    keyframes: (ctx) => {
+      const star = starPosition(ctx);
+      const dir = viewDirection(ctx);
+      return [
+        current(ctx),
+        // Rise while closing in, so the approach looks up at the tip
+        { position: dir.clone().multiplyScalar(16).setY(star.y + 2), target: star.clone().setY(star.y * 0.5) },
+        { position: dir.clone().multiplyScalar(4).setY(star.y + 0.5), target: star }
+      ];
+    }
+  },
+
+  gingerbread: {
+    id: 'gingerbread',
+    label: 'Gingerbread',
+    easing: EASINGS.easeInOutCubic,
+    duration: () => 7,
+    keyframes: (ctx) => {
+      const keepsake = keepsakePosition(ctx);
+      const out = keepsake.clone().setY(0).normalize();
+      const side = new THREE.Vector3(-out.z, 0, out.x);
+      // Sweep sideways past him, closest in the middle
+      return [
+        current(ctx),
+        { position: keepsake.clone().addScaledVector(out, 7).addScaledVector(side, -6).setY(keepsake.y + 1.5), target: keepsake },
+        { position: keepsake.clone().addScaledVector(out, 2.5).setY(keepsake.y + 0.3), target: keepsake },
+        { position: keepsake.clone().addScaledVector(out, 7).addScaledVector(side, 6).setY(keepsake.y + 1), target: keepsake }
+      ];
+    }
+  },
+
+  top: {
+    id: 'top',
+    label: 'Top',
+    easing: EASINGS.easeInOutCubic,
+    duration: () => 5,
+    keyframes: (ctx) => {
+      const dir = viewDirection(ctx);
+      return [
+        current(ctx),
+        // Nudged off-axis so the orbit controls keep a stable "up"
+        { position: dir.multiplyScalar(0.5).setY(ctx.spec.height * 2.5), target: ctx.origin.clone() }
+      ];
+    }
+  }
+};
+
+// Shots the tour cycles through
+export const TOUR_SHOTS: ShotId[] = ['orbit', 'star', 'gingerbread', 'top'];
+
+// --- Director ---
+
+interface ActiveShot {
+  id: ShotId;
+  duration: number;
+  easing: Easing;
+  positions: THREE.Curve<THREE.Vector3>;
+  targets: THREE.Curve<THREE.Vector3>;
+  elapsed: number;
+}
+
+export interface DirectorState {
+  mode: DirectorMode;
+  shot: ShotId | null; // Shot playing (or about to), null when the user has the camera
+}
+
+type Listener = (state: DirectorState) => void;
+
+export interface CameraDirector {
+  readonly state: DirectorState; // Replaced on every change (safe as a React snapshot)
+  readonly isPlaying: boolean;
+
+  play: (id: ShotId) => void;
+  setMode: (mode: DirectorMode) => void;
+  // Drops the current shot and the tour, e.g. when the user starts dragging
+  stop: () => void;
+  // Advances the current shot; writes into `out` and returns true while a shot is driving the camera
+  update: (delta: number, ctx: ShotContext, out: CameraKeyframe) => boolean;
+
+  onChange: (listener: Listener) => () => void;
+}
+
+const toCurve = (points: THREE.Vector3[]): THREE.Curve<THREE.Vector3> => {
+  return points.length > 2
+    ? new THREE.CatmullRomCurve3(points, false, 'centripetal')
+    : new THREE.LineCurve3(points[0], points[points.length - 1]);
+};
+
+// Plays keyframed camera shots. Ticked from the scene; UI and scene code ask
+// for shots, the scene hands over the camera's current framing every frame.
+export const createCameraDirector = (): CameraDirector => {
+  const listeners = new Set<Listener>();
+  let state: DirectorState = { mode: 'follow', shot: null };
+  let pending: ShotId | null = null; // Built on the next update, from the live camera
+  let active: ActiveShot | null = null;
+  let tourIndex = 0;
+
+  const setState = (next: Partial<DirectorState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const director: CameraDirector = {
+    get state() { return state; },
+    get isPlaying() { return active !== null || pending !== null; },
+
+    play: (id) => {
+      pending = id;
+      setState({ shot: id });
+    },
+
+    setMode: (mode) => {
+      if (mode === state.mode) return;
+      setState({ mode });
+      if (mode === 'tour') {
+        tourIndex = 0;
+        director.play(TOUR_SHOTS[0]);
+      } else {
+        director.stop();
+      }
+    },
+
+    stop: () => {
+      pending = null;
+      active = null;
+      setState({ mode: 'follow', shot: null });
+    },
+
+    update: (delta, ctx, out) => {
+      if (pending) {
+        const shot = CAMERA_SHOTS[pending];
+        const keyframes = shot.keyframes(ctx);
+        active = {
+          id: shot.id,
+          duration: Math.max(shot.duration(ctx), 0.001),
+          easing: shot.easing,
+          positions: toCurve(keyframes.map((k) => k.position)),
+          targets: toCurve(keyframes.map((k) => k.target)),
+          elapsed: 0
+        };
+        pending = null;
+      }
+      if (!active) return false;
+
+      active.elapsed = Math.min(active.duration, active.elapsed + delta);
+      const u = active.easing(active.elapsed / active.duration);
+      active.positions.getPoint(u, out.position);
+      active.targets.getPoint(u, out.target);
+
+      if (active.elapsed >= active.duration) {
+        active = null;
+        if (state.mode === 'tour') {
+          tourIndex = (tourIndex + 1) % TOUR_SHOTS.length;
+          director.play(TOUR_SHOTS[tourIndex]);
+        } else {
+          setState({ shot: null });
+        }
+      }
+      return true;
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+
+  return director;
+};
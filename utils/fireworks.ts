@@ -0,0 +1,312 @@
+import * as THREE from 'three';
+import { Rng, createRng, deriveSeed } from './random';
+
+export type FireworkPattern = 'peony' | 'ring' | 'willow' | 'heart';
+
+export const FIREWORK_PATTERNS: { id: FireworkPattern; label: string }[] = [
+  { id: 'peony', label: 'Peony' },
+  { id: 'ring', label: 'Ring' },
+  { id: 'willow', label: 'Willow' },
+  { id: 'heart', label: 'Heart' }
+];
+
+export interface LaunchOptions {
+  pattern?: FireworkPattern;  // Defaults to the selected pattern
+  at?: THREE.Vector3;         // Burst position (world); random above the tree if left out
+  delay?: number;             // Seconds before the rocket leaves the ground
+}
+
+export interface FireworksState {
+  pattern: FireworkPattern; // Used by launches that don't pick one
+}
+
+// What a frame of the simulation needs from the scene
+export interface FireworksFrame {
+  camera: THREE.Camera;     // Heart bursts face it
+  colors: THREE.Color[];    // Palette the bursts pick from
+  ground: number;           // World y rockets launch from
+}
+
+// Fixed-size particle pool, shared with the renderer as attribute arrays
+export interface FireworkParticles {
+  count: number;
+  positions: Float32Array;
+  colors: Float32Array;
+  sizes: Float32Array;
+  fades: Float32Array;      // 1 when spawned -> 0 when gone (0 = free slot)
+  version: number;          // Bumped when colors / sizes change (on spawn)
+}
+
+type Listener = (state: FireworksState) => void;
+
+export interface FireworksController {
+  readonly state: FireworksState; // Replaced on every change (safe as a React snapshot)
+  readonly particles: FireworkParticles;
+  readonly isActive: boolean;     // Anything in the air
+
+  launch: (options?: LaunchOptions) => void;
+  celebrate: () => void;          // A short volley of mixed patterns
+  setPattern: (pattern: FireworkPattern) => void;
+  update: (delta: number, frame: FireworksFrame) => void;
+  reset: () => void;              // Clears the sky and restarts the random stream (for recordings)
+
+  onChange: (listener: Listener) => () => void;
+}
+
+const MAX_PARTICLES = 6000;
+const MAX_ROCKETS = 12;
+const TRAIL_RATE = 90; // Trail sparks per second per rocket
+
+interface Rocket {
+  active: boolean;
+  delay: number;
+  lit: boolean;             // Left the ground (after its delay)
+  time: number;
+  fuse: number;             // Seconds from the ground to the burst
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  random: boolean;          // Burst position still to be picked
+  pattern: FireworkPattern;
+  colorIndex: number;
+  trail: number;            // Fractional trail sparks owed
+}
+
+const CELEBRATION: FireworkPattern[] = ['peony', 'ring', 'heart', 'willow', 'peony'];
+
+const WILLOW_GOLD = new THREE.Color(1, 0.72, 0.3);
+const TRAIL_COLOR = new THREE.Color(1, 0.65, 0.3);
+
+const head = new THREE.Vector3();
+const dir = new THREE.Vector3();
+const axisU = new THREE.Vector3();
+const axisV = new THREE.Vector3();
+const burstColor = new THREE.Color();
+
+// Random unit vector, written into `out`
+const randomDirection = (out: THREE.Vector3, rng: Rng) => {
+  const z = rng() * 2 - 1;
+  const a = rng() * Math.PI * 2;
+  const r = Math.sqrt(1 - z * z);
+  return out.set(r * Math.cos(a), r * Math.sin(a), z);
+};
+
+// Rockets with trails, and bursts of sparks in the theme's colors. All
+// particles live in one preallocated pool, so launches never allocate.
+// Randomness comes from the scene seed, so a recording plays the same show.
+export const createFireworksController = (seed: number): FireworksController => {
+  const listeners = new Set<Listener>();
+  let state: FireworksState = { pattern: 'peony' };
+  let rng = createRng(deriveSeed(seed, 'fireworks'));
+
+  const particles: FireworkParticles = {
+    count: MAX_PARTICLES,
+    positions: new Float32Array(MAX_PARTICLES * 3),
+    colors: new Float32Array(MAX_PARTICLES * 3),
+    sizes: new Float32Array(MAX_PARTICLES),
+    fades: new Float32Array(MAX_PARTICLES),
+    version: 0
+  };
+  const velocities = new Float32Array(MAX_PARTICLES * 3);
+  const lifetimes = new Float32Array(MAX_PARTICLES); // Seconds, total
+  const left = new Float32Array(MAX_PARTICLES);      // Seconds remaining
+  const drags = new Float32Array(MAX_PARTICLES);
+  const gravities = new Float32Array(MAX_PARTICLES);
+  // Stack of free slots
+  const free = new Int32Array(MAX_PARTICLES);
+  for (let i = 0; i < MAX_PARTICLES; i++) free[i] = MAX_PARTICLES - 1 - i;
+  let freeCount = MAX_PARTICLES;
+  let alive = 0;
+
+  const rockets: Rocket[] = Array.from({ length: MAX_ROCKETS }, () => ({
+    active: false, delay: 0, lit: false, time: 0, fuse: 1, from: new THREE.Vector3(), to: new THREE.Vector3(),
+    random: false, pattern: 'peony' as FireworkPattern, colorIndex: 0, trail: 0
+  }));
+
+  const setState = (next: FireworksState) => {
+    state = next;
+    listeners.forEach((listener) => listener(state));
+  };
+
+  // Takes a slot from the pool; drops the spark if the pool is used up
+  const spawn = (
+    position: THREE.Vector3, velocity: THREE.Vector3, color: THREE.Color,
+    life: number, size: number, drag: number, gravity: number
+  ) => {
+    if (freeCount === 0) return;
+    const i = free[--freeCount];
+    particles.positions[i * 3] = position.x;
+    particles.positions[i * 3 + 1] = position.y;
+    particles.positions[i * 3 + 2] = position.z;
+    velocities[i * 3] = velocity.x;
+    velocities[i * 3 + 1] = velocity.y;
+    velocities[i * 3 + 2] = velocity.z;
+    particles.colors[i * 3] = color.r;
+    particles.colors[i * 3 + 1] = color.g;
+    particles.colors[i * 3 + 2] = color.b;
+    particles.sizes[i] = size;
+    particles.fades[i] = 1;
+    lifetimes[i] = life;
+    left[i] = life;
+    drags[i] = drag;
+    gravities[i] = gravity;
+    alive++;
+  };
+
+  // Leaves the ground now, from under wherever it's headed
+  const ignite = (rocket: Rocket, { ground }: FireworksFrame) => {
+    if (rocket.random) {
+      // Somewhere above the tree's top
+      rocket.to.set((rng() * 2 - 1) * 9, ground + 16 + rng() * 6, (rng() * 2 - 1) * 4);
+    }
+    rocket.from.set(rocket.to.x + (rng() * 2 - 1) * 1.5, ground, rocket.to.z);
+    rocket.lit = true;
+  };
+
+  const burst = (rocket: Rocket, frame: FireworksFrame) => {
+    const { colors, camera } = frame;
+    // Palette colors at full brightness, keeping their hue
+    const base = colors.length > 0 ? colors[rocket.colorIndex % colors.length] : WILLOW_GOLD;
+    const peak = Math.max(base.r, base.g, base.b);
+    if (peak > 0.01) burstColor.copy(base).multiplyScalar(1 / peak);
+    else burstColor.setRGB(1, 1, 1);
+    const at = rocket.to;
+
+    switch (rocket.pattern) {
+      case 'peony':
+        for (let i = 0; i < 220; i++) {
+          randomDirection(dir, rng).multiplyScalar(7 * (0.85 + rng() * 0.15));
+          spawn(at, dir, burstColor, 1.6 + rng() * 0.6, 1, 1.6, 2.5);
+        }
+        break;
+
+      case 'ring': {
+        // A circle on a random plane
+        randomDirection(axisU, rng);
+        axisV.crossVectors(axisU, randomDirection(dir, rng)).normalize();
+        for (let i = 0; i < 120; i++) {
+          const a = (i / 120) * Math.PI * 2;
+          dir.copy(axisU).multiplyScalar(Math.cos(a)).addScaledVector(axisV, Math.sin(a)).multiplyScalar(8);
+          spawn(at, dir, burstColor, 1.8, 1.1, 1.4, 1.5);
+        }
+        break;
+      }
+
+      case 'willow':
+        // Slow, long-lived and heavy: droops into golden strands
+        burstColor.lerp(WILLOW_GOLD, 0.6);
+        for (let i = 0; i < 160; i++) {
+          randomDirection(dir, rng).multiplyScalar(4.5 * (0.8 + rng() * 0.2));
+          spawn(at, dir, burstColor, 3 + rng() * 0.5, 0.8, 0.8, 4);
+        }
+        break;
+
+      case 'heart':
+        // Classic heart curve, in the plane facing the camera
+        axisU.set(1, 0, 0).applyQuaternion(camera.quaternion);
+        axisV.set(0, 1, 0).applyQuaternion(camera.quaternion);
+        for (let i = 0; i < 140; i++) {
+          const t = (i / 140) * Math.PI * 2;
+          const x = Math.pow(Math.sin(t), 3);
+          const y = (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) / 16;
+          dir.copy(axisU).multiplyScalar(x * 7).addScaledVector(axisV, y * 7);
+          spawn(at, dir, burstColor, 1.8, 1, 1.8, 1);
+        }
+        break;
+    }
+    particles.version++;
+  };
+
+  const controller: FireworksController = {
+    get state() { return state; },
+    get particles() { return particles; },
+    get isActive() { return alive > 0 || rockets.some((r) => r.active); },
+
+    launch: ({ pattern = state.pattern, at, delay = 0 } = {}) => {
+      const rocket = rockets.find((r) => !r.active);
+      if (!rocket) return; // Sky's full; skip rather than allocate
+      rocket.active = true;
+      rocket.delay = delay;
+      rocket.lit = false;
+      rocket.time = 0;
+      rocket.fuse = 1.2 + rng() * 0.3;
+      rocket.random = !at;
+      if (at) rocket.to.copy(at);
+      rocket.pattern = pattern;
+      rocket.colorIndex = Math.floor(rng() * 64);
+      rocket.trail = 0;
+    },
+
+    celebrate: () => {
+      CELEBRATION.forEach((pattern, i) => controller.launch({ pattern, delay: i * 0.4 }));
+    },
+
+    setPattern: (pattern) => setState({ pattern }),
+
+    update: (delta, frame) => {
+      for (const rocket of rockets) {
+        if (!rocket.active) continue;
+        if (rocket.delay > 0) {
+          rocket.delay -= delta;
+          if (rocket.delay > 0) continue;
+        }
+        if (!rocket.lit) ignite(rocket, frame);
+
+        rocket.time = Math.min(rocket.time + delta, rocket.fuse);
+        const t = rocket.time / rocket.fuse;
+        // Slows as it climbs
+        head.lerpVectors(rocket.from, rocket.to, 1 - (1 - t) * (1 - t));
+
+        rocket.trail += delta * TRAIL_RATE * (1 - t * 0.5);
+        while (rocket.trail >= 1) {
+          rocket.trail -= 1;
+          randomDirection(dir, rng).multiplyScalar(0.4);
+          spawn(head, dir, TRAIL_COLOR, 0.4 + rng() * 0.3, 0.6, 2, 1);
+        }
+        particles.version++;
+
+        if (t >= 1) {
+          rocket.active = false;
+          burst(rocket, frame);
+        }
+      }
+
+      if (alive === 0) return;
+      const { positions, fades } = particles;
+      for (let i = 0; i < MAX_PARTICLES; i++) {
+        if (fades[i] <= 0) continue;
+        left[i] -= delta;
+        if (left[i] <= 0) {
+          fades[i] = 0;
+          free[freeCount++] = i;
+          alive--;
+          continue;
+        }
+        fades[i] = left[i] / lifetimes[i];
+        const damping = Math.exp(-drags[i] * delta);
+        velocities[i * 3] *= damping;
+        velocities[i * 3 + 1] = velocities[i * 3 + 1] * damping - gravities[i] * delta;
+        velocities[i * 3 + 2] *= damping;
+        positions[i * 3] += velocities[i * 3] * delta;
+        positions[i * 3 + 1] += velocities[i * 3 + 1] * delta;
+        positions[i * 3 + 2] += velocities[i * 3 + 2] * delta;
+      }
+    },
+
+    reset: () => {
+      rockets.forEach((rocket) => { rocket.active = false; });
+      particles.fades.fill(0);
+      for (let i = 0; i < MAX_PARTICLES; i++) free[i] = MAX_PARTICLES - 1 - i;
+      freeCount = MAX_PARTICLES;
+      alive = 0;
+      particles.version++;
+      rng = createRng(deriveSeed(seed, 'fireworks'));
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+
+  return controller;
+};
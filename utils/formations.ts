@@ -0,0 +1,527 @@
+import * as THREE from 'three';
+import { TreeSpec, TreeState } from '../types';
+import { getRandomSpherePoint, getTreeSpiralPoint, getTreeRadius, getTreeHeightAt } from './math';
+import { Rng, createRng, deriveSeed } from './random';
+
+export type FormationId = string;
+
+// Which part of the scene is asking for a layout. Formations can treat
+// layers differently (e.g. the star sits on top, ornaments tuck inside).
+export type FormationLayer = 'foliage' | 'ornament' | 'spiral' | 'star' | 'keepsake';
+
+// How a formation's particles keep moving once they've arrived. The Foliage
+// shader implements each one (see IDLE_MOTIONS for the order).
+export type IdleMotion = 'breathe' | 'float' | 'orbit' | 'swirl' | 'burst' | 'snow';
+
+export const IDLE_MOTIONS: IdleMotion[] = ['breathe', 'float', 'orbit', 'swirl', 'burst', 'snow'];
+
+export interface FormationContext {
+  layer: FormationLayer;
+  spec: TreeSpec;
+  rng: Rng;
+  range: [number, number]; // Normalized height band the layer is allowed to use
+}
+
+export interface Formation {
+  id: FormationId;
+  label: string;
+  // Released formations get the energetic treatment: burst spin, camera fly-in
+  released: boolean;
+  // Motion once arrived; defaults to 'float' when released, 'breathe' otherwise
+  idle?: IdleMotion;
+  // Position of point `index` out of `count` for the layer in `ctx`
+  sample: (ctx: FormationContext, index: number, count: number) => THREE.Vector3;
+  // Optional color for a sampled point (e.g. an image pixel). Points
+  // without one keep the layer's own palette.
+  color?: (ctx: FormationContext, position: THREE.Vector3) => THREE.Color | null;
+  // Left out of the picker (e.g. a one-off explosion)
+  hidden?: boolean;
+}
+
+export const FULL_RANGE: [number, number] = [0, 1];
+
+// --- Registry ---
+
+const registry = new Map<FormationId, Formation>();
+const listeners = new Set<() => void>();
+let snapshot: Formation[] = [];
+
+export const registerFormation = (formation: Formation) => {
+  registry.set(formation.id, formation);
+  snapshot = Array.from(registry.values()).filter((f) => !f.hidden);
+  listeners.forEach((listener) => listener());
+};
+
+export const getFormation = (id: FormationId): Formation => {
+  const formation = registry.get(id);
+  if (!formation) throw new Error(`Unknown formation "${id}"`);
+  return formation;
+};
+
+export const listFormations = (): Formation[] => snapshot;
+
+export const subscribeFormations = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Scene-wide behaviour (camera, burst, damping) still thinks in terms of
+// "released" vs "assembled"
+export const getTreeState = (id: FormationId): TreeState => {
+  return getFormation(id).released ? TreeState.SCATTERED : TreeState.TREE_SHAPE;
+};
+
+export const getIdleMotion = (id: FormationId): IdleMotion => {
+  const formation = getFormation(id);
+  return formation.idle ?? (formation.released ? 'float' : 'breathe');
+};
+
+// Lay out `count` points of a formation for one layer. Each formation draws
+// from its own stream so switching formations never reshuffles the others.
+export const generateFormationLayout = (
+  formation: Formation,
+  layer: FormationLayer,
+  count: number,
+  spec: TreeSpec,
+  seed: number,
+  range: [number, number] = FULL_RANGE
+): Float32Array => {
+  const out = new Float32Array(count * 3);
+  const ctx: FormationContext = {
+    layer,
+    spec,
+    range,
+    rng: createRng(deriveSeed(seed, formation.id))
+  };
+
+  for (let i = 0; i < count; i++) {
+    const p = formation.sample(ctx, i, count);
+    out[i * 3] = p.x;
+    out[i * 3 + 1] = p.y;
+    out[i * 3 + 2] = p.z;
+  }
+  return out;
+};
+
+// Per-point RGBA for a layout produced by generateFormationLayout. Alpha is
+// how strongly the formation's color overrides the layer's palette.
+export const generateFormationColors = (
+  formation: Formation,
+  layer: FormationLayer,
+  positions: Float32Array,
+  spec: TreeSpec,
+  seed: number,
+  range: [number, number] = FULL_RANGE
+): Float32Array => {
+  const count = positions.length / 3;
+  const out = new Float32Array(count * 4);
+  if (!formation.color) return out;
+
+  const ctx: FormationContext = {
+    layer,
+    spec,
+    range,
+    rng: createRng(deriveSeed(seed, `${formation.id}:color`))
+  };
+  const p = new THREE.Vector3();
+
+  for (let i = 0; i < count; i++) {
+    p.fromArray(positions, i * 3);
+    const color = formation.color(ctx, p);
+    if (!color) continue;
+    out[i * 4] = color.r;
+    out[i * 4 + 1] = color.g;
+    out[i * 4 + 2] = color.b;
+    out[i * 4 + 3] = 1;
+  }
+  return out;
+};
+
+// --- Shape helpers ---
+
+const randomInRange = (ctx: FormationContext) => {
+  const [minT, maxT] = ctx.range;
+  return minT + ctx.rng() * (maxT - minT);
+};
+
+const jitterVec = (rng: Rng, amount: number) => new THREE.Vector3(
+  (rng() - 0.5) * amount,
+  (rng() - 0.5) * amount,
+  (rng() - 0.5) * amount
+);
+
+// Classic heart curve, roughly spanning x: [-16, 16], y: [-17, 12]
+const heartPoint = (theta: number) => new THREE.Vector2(
+  16 * Math.pow(Math.sin(theta), 3),
+  13 * Math.cos(theta) - 5 * Math.cos(2 * theta) - 2 * Math.cos(3 * theta) - Math.cos(4 * theta)
+);
+
+// Distance from center to the outline of a five-pointed star at `angle`
+const starRadius = (angle: number, outer: number, inner: number) => {
+  const points = 5;
+  const segment = Math.PI / points;
+  const a = ((angle % (2 * segment)) + 2 * segment) % (2 * segment);
+  const u = a < segment ? a / segment : 2 - a / segment;
+  // Interpolate along the straight edge between an outer tip and inner notch
+  const tip = new THREE.Vector2(outer, 0);
+  const notch = new THREE.Vector2(Math.cos(segment) * inner, Math.sin(segment) * inner);
+  return tip.lerp(notch, u).length();
+};
+
+// --- Built-in formations ---
+
+const scatterFormation: Formation = {
+  id: 'scatter',
+  label: 'Scatter',
+  released: true,
+  idle: 'float',
+  sample: ({ layer, rng }) => {
+    switch (layer) {
+      case 'star': {
+        const p = getRandomSpherePoint(12, rng);
+        // Keep the star high up so it doesn't fall into the floor too much
+        p.y = Math.abs(p.y) + 5;
+        return p;
+      }
+      case 'ornament': return getRandomSpherePoint(14, rng);
+      case 'spiral': return getRandomSpherePoint(20, rng);
+      default: return getRandomSpherePoint(15, rng);
+    }
+  }
+};
+
+const treeFormation: Formation = {
+  id: 'tree',
+  label: 'Tree',
+  released: false,
+  sample: (ctx, index, count) => {
+    const { layer, spec, rng } = ctx;
+    switch (layer) {
+      case 'ornament': {
+        // Tucked slightly inside the foliage so ornaments sit among the needles
+        return getTreeSpiralPoint(randomInRange(ctx), spec, 1.2, rng, 0.92, 0.93);
+      }
+      case 'spiral': {
+        const t = index / count;
+        const angle = t * Math.PI * 2 * 4;
+        // Wraps just outside the foliage so the lights stay visible
+        const r = getTreeRadius(spec, t) * 1.15 + 0.5;
+        const y = (t - 0.5) * (spec.height + 1);
+        return new THREE.Vector3(Math.cos(angle) * r, y, Math.sin(angle) * r);
+      }
+      case 'star':
+        // Sit just above the tip
+        return new THREE.Vector3(0, spec.height / 2 + 0.8, 0);
+      case 'keepsake': {
+        // Hidden spot: Lower branch, tucked just inside the foliage
+        const angle = Math.PI * 0.25;
+        const t = 0.32;
+        const r = getTreeRadius(spec, t) * 0.78;
+        return new THREE.Vector3(Math.cos(angle) * r, getTreeHeightAt(spec, t), Math.sin(angle) * r);
+      }
+      default: {
+        const t = Math.pow(rng(), 0.8);
+        return getTreeSpiralPoint(t, spec, 0.6, rng);
+      }
+    }
+  }
+};
+
+const sphereFormation: Formation = {
+  id: 'sphere',
+  label: 'Sphere',
+  released: false,
+  sample: ({ layer, spec, rng }, index, count) => {
+    const radius = spec.height * 0.5;
+    switch (layer) {
+      case 'ornament':
+        return getRandomSpherePoint(1, rng).normalize().multiplyScalar(radius * 0.9);
+      case 'spiral': {
+        const t = index / count;
+        const phi = Math.acos(1 - 2 * t);
+        const theta = t * Math.PI * 2 * 6;
+        return new THREE.Vector3().setFromSphericalCoords(radius * 1.15, phi, theta);
+      }
+      case 'star':
+        return new THREE.Vector3(0, radius + 0.8, 0);
+      case 'keepsake':
+        return new THREE.Vector3(Math.cos(Math.PI * 0.25), -0.3, Math.sin(Math.PI * 0.25))
+          .normalize()
+          .multiplyScalar(radius * 0.85);
+      default:
+        return getRandomSpherePoint(1, rng)
+          .normalize()
+          .multiplyScalar(radius * (0.92 + 0.08 * rng()))
+          .add(jitterVec(rng, 0.3));
+    }
+  }
+};
+
+const ringFormation: Formation = {
+  id: 'ring',
+  label: 'Ring',
+  released: false,
+  sample: ({ layer, spec, rng }, index, count) => {
+    // Upright torus facing the camera
+    const radius = spec.height * 0.42;
+    const tube = spec.baseRadius * 0.2;
+    const torusPoint = (u: number, v: number, r: number) => new THREE.Vector3(
+      (radius + r * Math.cos(v)) * Math.cos(u),
+      (radius + r * Math.cos(v)) * Math.sin(u),
+      r * Math.sin(v)
+    );
+
+    switch (layer) {
+      case 'ornament':
+        return torusPoint(rng() * Math.PI * 2, rng() * Math.PI * 2, tube * 0.9);
+      case 'spiral': {
+        const t = index / count;
+        return torusPoint(t * Math.PI * 2, t * Math.PI * 2 * 12, tube * 1.3);
+      }
+      case 'star':
+        return new THREE.Vector3(0, radius + tube + 0.8, 0);
+      case 'keepsake':
+        return torusPoint(-Math.PI * 0.25, Math.PI * 0.5, tube);
+      default:
+        return torusPoint(rng() * Math.PI * 2, rng() * Math.PI * 2, tube * Math.sqrt(rng()));
+    }
+  }
+};
+
+const heartFormation: Formation = {
+  id: 'heart',
+  label: 'Heart',
+  released: false,
+  sample: ({ layer, spec, rng }, index, count) => {
+    const scale = spec.height / 34;
+    const depth = spec.baseRadius * 0.5;
+    // Shift so the heart is vertically centered
+    const place = (theta: number, k: number, z: number) => {
+      const p = heartPoint(theta).multiplyScalar(k);
+      return new THREE.Vector3(p.x * scale, (p.y + 2.5) * scale, z);
+    };
+
+    switch (layer) {
+      case 'ornament': {
+        const k = 0.75 + 0.25 * rng();
+        return place(rng() * Math.PI * 2, k, (rng() - 0.5) * depth * 0.6);
+      }
+      case 'spiral': {
+        const t = index / count;
+        return place(t * Math.PI * 2, 1.08, Math.sin(t * Math.PI * 16) * 0.3);
+      }
+      case 'star':
+        // Nestled in the dip at the top of the heart
+        return place(0, 1, 0).add(new THREE.Vector3(0, 0.8, 0));
+      case 'keepsake':
+        return place(Math.PI * 0.7, 0.6, depth * 0.4);
+      default: {
+        const k = Math.sqrt(rng());
+        // Puffier in the middle, thin at the outline
+        const thickness = depth * Math.sqrt(1 - k * k);
+        return place(rng() * Math.PI * 2, k, (rng() - 0.5) * thickness);
+      }
+    }
+  }
+};
+
+const starFormation: Formation = {
+  id: 'star',
+  label: 'Star',
+  released: false,
+  sample: ({ layer, spec, rng }, index, count) => {
+    const outer = spec.height * 0.5;
+    const inner = outer * 0.45;
+    const depth = spec.baseRadius * 0.35;
+    // Rotate a quarter turn so one tip points straight up
+    const place = (angle: number, k: number, z: number) => {
+      const r = starRadius(angle, outer, inner) * k;
+      return new THREE.Vector3(Math.cos(angle + Math.PI / 2) * r, Math.sin(angle + Math.PI / 2) * r, z);
+    };
+
+    switch (layer) {
+      case 'ornament':
+        return place(rng() * Math.PI * 2, 0.7 + 0.3 * rng(), (rng() - 0.5) * depth * 0.6);
+      case 'spiral': {
+        const t = index / count;
+        return place(t * Math.PI * 2, 1.12, 0);
+      }
+      case 'star':
+        // The real star glows right in the middle
+        return new THREE.Vector3(0, 0, depth * 0.5 + 0.5);
+      case 'keepsake':
+        return place(Math.PI * 0.8, 0.55, depth * 0.4);
+      default:
+        return place(rng() * Math.PI * 2, Math.sqrt(rng()), (rng() - 0.5) * depth);
+    }
+  }
+};
+
+const galaxyFormation: Formation = {
+  id: 'galaxy',
+  label: 'Galaxy',
+  released: true,
+  idle: 'orbit',
+  sample: ({ layer, spec, rng }, index, count) => {
+    const radius = spec.height * 1.1;
+    const arms = 3;
+    const twist = 0.35;
+    const thickness = spec.height * 0.15;
+    // Flat disc with trailing spiral arms
+    const armPoint = (r: number, arm: number, spread: number) => {
+      const angle = (arm / arms) * Math.PI * 2 + r * twist + (rng() - 0.5) * spread;
+      const falloff = 1 - r / radius;
+      return new THREE.Vector3(
+        Math.cos(angle) * r,
+        (rng() - 0.5) * thickness * falloff,
+        Math.sin(angle) * r
+      );
+    };
+
+    switch (layer) {
+      case 'ornament':
+        return armPoint(radius * 0.95 * Math.pow(rng(), 0.7), Math.floor(rng() * arms), 0.5);
+      case 'spiral': {
+        const t = index / count;
+        return armPoint(radius * t, index % arms, 0.1);
+      }
+      case 'star':
+        // The galactic core
+        return new THREE.Vector3(0, 0.5, 0);
+      case 'keepsake':
+        return armPoint(radius * 0.4, 1, 0);
+      default:
+        return armPoint(radius * Math.pow(rng(), 0.7), Math.floor(rng() * arms), 0.6);
+    }
+  }
+};
+
+const vortexFormation: Formation = {
+  id: 'vortex',
+  label: 'Vortex',
+  released: true,
+  idle: 'swirl',
+  sample: ({ layer, spec, rng }, index, count) => {
+    const bottom = -spec.height * 0.5 - 1;
+    const top = spec.height * 0.5 + 6;
+    // Funnel around the trunk axis: tight at the bottom, flaring out on top
+    const funnelPoint = (u: number, angle: number, spread: number) => {
+      const r = 0.8 + Math.pow(u, 1.5) * spec.baseRadius * 2.2 + (rng() - 0.5) * spread;
+      return new THREE.Vector3(Math.cos(angle) * r, bottom + u * (top - bottom), Math.sin(angle) * r);
+    };
+
+    switch (layer) {
+      case 'ornament':
+        return funnelPoint(rng(), rng() * Math.PI * 2, 2.5).multiply(new THREE.Vector3(1.1, 1, 1.1));
+      case 'spiral': {
+        const t = index / count;
+        return funnelPoint(t, t * Math.PI * 2 * 9, 0);
+      }
+      case 'star':
+        // Riding the eye of the storm
+        return new THREE.Vector3(0, top + 1, 0);
+      case 'keepsake':
+        return funnelPoint(0.45, Math.PI * 0.25, 0);
+      default:
+        return funnelPoint(rng(), rng() * Math.PI * 2, 1.5);
+    }
+  }
+};
+
+const driftFormation: Formation = {
+  id: 'drift',
+  label: 'Snow Drift',
+  released: true,
+  idle: 'snow',
+  sample: ({ layer, spec, rng }) => {
+    const floor = -spec.height * 0.5;
+    const radius = spec.height * 1.3;
+    // Wide, low cloud that thins out with height, like flakes hanging in the air
+    const flake = (maxHeight: number) => {
+      const r = radius * Math.sqrt(rng());
+      const angle = rng() * Math.PI * 2;
+      return new THREE.Vector3(Math.cos(angle) * r, floor + Math.pow(rng(), 1.8) * maxHeight, Math.sin(angle) * r);
+    };
+
+    switch (layer) {
+      case 'ornament':
+        // Heavier, so they've settled closer to the ground
+        return flake(spec.height * 0.4);
+      case 'spiral':
+        return flake(spec.height * 1.2);
+      case 'star':
+        return new THREE.Vector3(0, floor + spec.height * 1.1, 0);
+      case 'keepsake':
+        // Half-buried in the drift
+        return new THREE.Vector3(spec.baseRadius * 0.7, floor + 0.3, spec.baseRadius * 0.7);
+      default:
+        return flake(spec.height);
+    }
+  }
+};
+
+// Blasts everything away from `origin` (in tree space), through the tree
+// and away from the side that was hit
+export const createExplosionFormation = (origin: THREE.Vector3): Formation => {
+  const axis = new THREE.Vector3(-origin.x, 0, -origin.z);
+  if (axis.lengthSq() < 1e-6) axis.set(0, 0, -1);
+  axis.normalize();
+
+  return {
+    id: 'explode',
+    label: 'Explode',
+    released: true,
+    idle: 'burst',
+    sample: ({ layer, spec, rng }) => {
+      // Random direction leaning along the blast axis
+      const debris = (near: number, far: number) => getRandomSpherePoint(1, rng)
+        .normalize()
+        .addScaledVector(axis, 1.4)
+        .normalize()
+        .multiplyScalar(near + (far - near) * Math.pow(rng(), 0.6))
+        .add(origin);
+
+      switch (layer) {
+        case 'ornament': return debris(3, 16);
+        case 'spiral': return debris(6, 22);
+        case 'star': {
+          const p = debris(spec.height * 0.5, spec.height * 0.8);
+          p.y = Math.abs(p.y) + 5;
+          return p;
+        }
+        case 'keepsake': return origin.clone().addScaledVector(axis, spec.baseRadius);
+        default: return debris(2, 18);
+      }
+    }
+  };
+};
+
+let explosions = 0;
+
+// Registers an explosion around a new point under its own id, so a burst
+// while already exploded still retargets; returns its id. Only the last
+// two are kept, as a transition only ever refers to its `from` and `to`.
+export const registerExplosionFormation = (origin: THREE.Vector3): FormationId => {
+  registry.delete(`explode:${explosions - 1}`);
+  explosions++;
+  const formation: Formation = { ...createExplosionFormation(origin), id: `explode:${explosions}`, hidden: true };
+  registerFormation(formation);
+  return formation.id;
+};
+
+[
+  scatterFormation,
+  treeFormation,
+  sphereFormation,
+  ringFormation,
+  heartFormation,
+  starFormation,
+  galaxyFormation,
+  vortexFormation,
+  driftFormation,
+  createExplosionFormation(new THREE.Vector3(0, 0, 3))
+].forEach(registerFormation);
+
+// Where every layer starts on first load, so the tree assembles in
+export const INTRO_FORMATION: FormationId = 'scatter';
+export const DEFAULT_FORMATION: FormationId = 'tree';
@@ -0,0 +1,183 @@
+// Minimal animated GIF (GIF89a) encoder: one 256-color palette per frame,
+// picked by median cut, LZW-compressed. Good enough for short loops of the
+// tree without pulling in a dependency.
+
+const MAX_COLORS = 256;
+
+interface ColorBox {
+  bins: number[]; // 15-bit RGB bins (5 bits per channel)
+  count: number;  // Pixels covered
+  channel: number; // Channel with the widest range, and that range
+  range: number;
+}
+
+const channel = (bin: number, c: number) => (bin >> (10 - c * 5)) & 31;
+
+// Reduces RGBA pixels to palette indices. Works on a 5-bit-per-channel
+// histogram, so every pixel in a bin maps to the same color.
+const quantize = (rgba: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(1 << 15);
+  const pixels = rgba.length / 4;
+  const pixelBins = new Uint16Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const bin = ((rgba[i * 4] >> 3) << 10) | ((rgba[i * 4 + 1] >> 3) << 5) | (rgba[i * 4 + 2] >> 3);
+    pixelBins[i] = bin;
+    histogram[bin]++;
+  }
+
+  // A box of bins, measured for its widest channel
+  const makeBox = (bins: number[]): ColorBox => {
+    const box = { bins, count: 0, channel: 0, range: -1 };
+    for (let c = 0; c < 3; c++) {
+      let min = 31;
+      let max = 0;
+      bins.forEach((bin) => {
+        const v = channel(bin, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      });
+      if (max - min > box.range) {
+        box.channel = c;
+        box.range = max - min;
+      }
+    }
+    bins.forEach((bin) => { box.count += histogram[bin]; });
+    return box;
+  };
+
+  const used: number[] = [];
+  histogram.forEach((count, bin) => { if (count > 0) used.push(bin); });
+  const boxes = [makeBox(used)];
+
+  // Split the box with the widest spread (weighted by pixels) at its median
+  while (boxes.length < MAX_COLORS) {
+    let target = -1;
+    let targetScore = 0;
+    boxes.forEach((box, i) => {
+      const score = box.bins.length < 2 ? 0 : box.range * Math.sqrt(box.count);
+      if (score > targetScore) {
+        target = i;
+        targetScore = score;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    box.bins.sort((a, b) => channel(a, box.channel) - channel(b, box.channel));
+    let seen = 0;
+    let split = 1;
+    for (; split < box.bins.length - 1; split++) {
+      seen += histogram[box.bins[split - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    boxes.splice(target, 1, makeBox(box.bins.slice(0, split)), makeBox(box.bins.slice(split)));
+  }
+
+  // Each box becomes its pixel-weighted average color
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const lookup = new Uint8Array(1 << 15);
+  boxes.forEach((box, index) => {
+    const sum = [0, 0, 0];
+    box.bins.forEach((bin) => {
+      lookup[bin] = index;
+      for (let c = 0; c < 3; c++) sum[c] += ((channel(bin, c) << 3) + 4) * histogram[bin];
+    });
+    for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(sum[c] / Math.max(box.count, 1));
+  });
+
+  const indices = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) indices[i] = lookup[pixelBins[i]];
+  return { palette, indices };
+};
+
+// Variable-length LZW as GIF wants it, with 8-bit palette indices
+const lzw = (indices: Uint8Array, minCodeSize = 8): number[] => {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let dictionary = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (next === 4096) {
+      // Table full: start over
+      write(clear);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      dictionary.set(key, next++);
+    }
+    prefix = k;
+  }
+  write(prefix);
+  write(end);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+};
+
+export interface GifEncoder {
+  // RGBA pixels of width x height, shown for `delay` hundredths of a second
+  addFrame: (rgba: Uint8ClampedArray, delay: number) => void;
+  finish: () => Blob;
+}
+
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const parts: Uint8Array[] = [];
+  const bytes = (...values: number[]) => parts.push(Uint8Array.from(values));
+  const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const text = (value: string) => Array.from(value, (ch) => ch.charCodeAt(0));
+
+  bytes(...text('GIF89a'), ...word(width), ...word(height), 0, 0, 0);
+  // Loop forever
+  bytes(0x21, 0xff, 0x0b, ...text('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0);
+
+  return {
+    addFrame: (rgba, delay) => {
+      const { palette, indices } = quantize(rgba);
+      // Graphic control: keep the previous frame underneath, no transparency
+      bytes(0x21, 0xf9, 0x04, 0x04, ...word(delay), 0, 0);
+      // Full-frame image with a 256-entry local palette
+      bytes(0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0x87);
+      parts.push(palette);
+
+      const data = lzw(indices);
+      const blocks: number[] = [8];
+      for (let i = 0; i < data.length; i += 255) {
+        const block = data.slice(i, i + 255);
+        blocks.push(block.length, ...block);
+      }
+      blocks.push(0);
+      parts.push(Uint8Array.from(blocks));
+    },
+
+    finish: () => {
+      bytes(0x3b);
+      return new Blob(parts, { type: 'image/gif' });
+    }
+  };
+};
@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { Font, FontData, FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { Formation, FormationId, registerFormation } from './formations';
+import { Rng, hashString } from './random';
+
+// Flattened 2D outlines, normalized to fit a unit box centered on the origin
+interface ShapeSampler {
+  triangles: THREE.Vector2[][]; // Filled area, for the body of the glyphs
+  triangleAreas: number[];      // Cumulative, for area-weighted picking
+  outline: THREE.Vector2[][];   // Edge segments, for tracing the glyph outlines
+  outlineLengths: number[];     // Cumulative
+  aspect: number;               // Width / height of the original artwork
+}
+
+const CURVE_DIVISIONS = 12;
+
+// Index of the first entry whose cumulative weight reaches `target`
+const findCumulative = (cumulative: number[], target: number) => {
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const createShapeSampler = (shapes: THREE.Shape[]): ShapeSampler => {
+  if (shapes.length === 0) {
+    throw new Error('Nothing to sample: the text or SVG produced no filled shapes');
+  }
+
+  const triangles: THREE.Vector2[][] = [];
+  const outline: THREE.Vector2[][] = [];
+  const box = new THREE.Box2();
+
+  shapes.forEach((shape) => {
+    const { shape: contour, holes } = shape.extractPoints(CURVE_DIVISIONS);
+    const faces = THREE.ShapeUtils.triangulateShape(contour, holes);
+    const vertices = [...contour, ...holes.flat()];
+
+    faces.forEach(([a, b, c]) => triangles.push([vertices[a], vertices[b], vertices[c]]));
+
+    [contour, ...holes].forEach((ring) => {
+      ring.forEach((p, i) => {
+        box.expandByPoint(p);
+        outline.push([p, ring[(i + 1) % ring.length]]);
+      });
+    });
+  });
+
+  // Normalize so the artwork fits a unit box centered on the origin
+  const center = box.getCenter(new THREE.Vector2());
+  const size = box.getSize(new THREE.Vector2());
+  const extent = Math.max(size.x, size.y) || 1;
+  const normalize = (p: THREE.Vector2) => p.clone().sub(center).divideScalar(extent);
+
+  const normTriangles = triangles.map((tri) => tri.map(normalize));
+  const normOutline = outline.map((seg) => seg.map(normalize));
+
+  let areaSum = 0;
+  const triangleAreas = normTriangles.map(([a, b, c]) => {
+    areaSum += Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+    return areaSum;
+  });
+
+  let lengthSum = 0;
+  const outlineLengths = normOutline.map(([a, b]) => {
+    lengthSum += a.distanceTo(b);
+    return lengthSum;
+  });
+
+  return {
+    triangles: normTriangles,
+    triangleAreas,
+    outline: normOutline,
+    outlineLengths,
+    aspect: size.y > 0 ? size.x / size.y : 1
+  };
+};
+
+const sampleFill = (sampler: ShapeSampler, rng: Rng) => {
+  const { triangles, triangleAreas } = sampler;
+  const total = triangleAreas[triangleAreas.length - 1];
+  const [a, b, c] = triangles[findCumulative(triangleAreas, rng() * total)];
+  // Uniform point inside a triangle
+  let u = rng();
+  let v = rng();
+  if (u + v > 1) {
+    u = 1 - u;
+    v = 1 - v;
+  }
+  return new THREE.Vector2(
+    a.x + (b.x - a.x) * u + (c.x - a.x) * v,
+    a.y + (b.y - a.y) * u + (c.y - a.y) * v
+  );
+};
+
+// Point at fraction `t` along the combined outline
+const sampleOutline = (sampler: ShapeSampler, t: number) => {
+  const { outline, outlineLengths } = sampler;
+  const total = outlineLengths[outlineLengths.length - 1];
+  const target = t * total;
+  const i = findCumulative(outlineLengths, target);
+  const start = i > 0 ? outlineLengths[i - 1] : 0;
+  const span = outlineLengths[i] - start;
+  const [a, b] = outline[i];
+  return a.clone().lerp(b, span > 0 ? (target - start) / span : 0);
+};
+
+// Turns flat artwork into a formation: foliage fills the glyphs with depth,
+// ornaments and fairy lights trace the outlines
+export const createShapeFormation = (
+  id: FormationId,
+  label: string,
+  shapes: THREE.Shape[]
+): Formation => {
+  const sampler = createShapeSampler(shapes);
+
+  return {
+    id,
+    label,
+    released: false,
+    sample: ({ layer, spec, rng }, index, count) => {
+      // Fit inside a wide card-shaped area scaled from the tree size
+      const maxWidth = spec.height * 1.8;
+      const maxHeight = spec.height * 0.8;
+      const scale = sampler.aspect >= 1
+        ? Math.min(maxWidth, maxHeight * sampler.aspect)
+        : Math.min(maxHeight, maxWidth / sampler.aspect);
+      const depth = spec.baseRadius * 0.25;
+      const halfHeight = scale / Math.max(sampler.aspect, 1) / 2;
+
+      const place = (p: THREE.Vector2, z: number) => new THREE.Vector3(p.x * scale, p.y * scale, z);
+
+      switch (layer) {
+        case 'ornament':
+          return place(sampleOutline(sampler, rng()), (rng() - 0.5) * depth);
+        case 'spiral':
+          // Lights trace the outlines in order, slightly in front
+          return place(sampleOutline(sampler, index / count), depth * 0.75);
+        case 'star':
+          return new THREE.Vector3(0, halfHeight + 1.5, 0);
+        case 'keepsake':
+          return place(sampleFill(sampler, rng), depth);
+        default:
+          return place(sampleFill(sampler, rng), (rng() - 0.5) * depth);
+      }
+    }
+  };
+};
+
+let fontPromise: Promise<Font> | null = null;
+
+// The typeface is only fetched the first time text is requested
+const loadFont = () => {
+  if (!fontPromise) {
+    fontPromise = import('three/examples/fonts/helvetiker_bold.typeface.json')
+      .then((module) => new FontLoader().parse(module.default as unknown as FontData));
+  }
+  return fontPromise;
+};
+
+export const loadTextShapes = async (text: string): Promise<THREE.Shape[]> => {
+  const font = await loadFont();
+  return font.generateShapes(text, 1);
+};
+
+export const parseSvgShapes = (svgText: string): THREE.Shape[] => {
+  const { paths } = new SVGLoader().parse(svgText);
+  const shapes = paths.flatMap((path) => SVGLoader.createShapes(path));
+
+  // SVG's y axis points down; flip so the artwork isn't upside down
+  const flip = new THREE.Matrix3().makeScale(1, -1);
+  return shapes.map((shape) => {
+    const { shape: contour, holes } = shape.extractPoints(CURVE_DIVISIONS);
+    const flipped = new THREE.Shape(contour.map((p) => p.clone().applyMatrix3(flip)));
+    flipped.holes = holes.map((hole) => new THREE.Path(hole.map((p) => p.clone().applyMatrix3(flip))));
+    return flipped;
+  });
+};
+
+// Registers (or reuses) a formation spelling out `text`; resolves to its id
+export const registerTextFormation = async (text: string): Promise<FormationId> => {
+  const id = `text:${text}`;
+  const shapes = await loadTextShapes(text);
+  registerFormation(createShapeFormation(id, text, shapes));
+  return id;
+};
+
+// Registers a formation tracing an SVG document and returns its id
+export const registerSvgFormation = (svgText: string, label: string = 'Logo'): FormationId => {
+  const id = `svg:${hashString(svgText)}`;
+  registerFormation(createShapeFormation(id, label, parseSvgShapes(svgText)));
+  return id;
+};
@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import { Formation, FormationId, registerFormation } from './formations';
+import { hashString } from './random';
+
+// Longest side the image is downsampled to before sampling. Plenty for
+// 6000 particles and keeps getImageData cheap.
+const MAX_SAMPLE_SIZE = 160;
+
+// Pixels more transparent than this are treated as empty background
+const ALPHA_CUTOFF = 0.5;
+
+interface PixelGrid {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row-major from the top-left
+}
+
+const pixelColor = (grid: PixelGrid, x: number, y: number) => {
+  const i = (y * grid.width + x) * 4;
+  return new THREE.Color(grid.data[i] / 255, grid.data[i + 1] / 255, grid.data[i + 2] / 255);
+};
+
+// Builds a formation whose points cover the opaque pixels of an image and
+// take on their colors. Brighter pixels are pushed slightly forward for depth.
+export const createImageFormation = (id: FormationId, label: string, grid: PixelGrid): Formation => {
+  const filled: number[] = [];
+  for (let i = 0; i < grid.width * grid.height; i++) {
+    if (grid.data[i * 4 + 3] / 255 >= ALPHA_CUTOFF) filled.push(i);
+  }
+  if (filled.length === 0) {
+    throw new Error('The image has no visible pixels to form');
+  }
+
+  const aspect = grid.width / grid.height;
+
+  // World size of the picture, fitted inside a card-shaped area
+  const frameSize = (height: number) => {
+    const maxWidth = height * 1.6;
+    const maxHeight = height * 1.1;
+    const width = Math.min(maxWidth, maxHeight * aspect);
+    return { width, height: width / aspect };
+  };
+
+  const toWorld = (px: number, py: number, size: { width: number; height: number }) => new THREE.Vector2(
+    (px / grid.width - 0.5) * size.width,
+    (0.5 - py / grid.height) * size.height
+  );
+
+  return {
+    id,
+    label,
+    released: false,
+    sample: ({ layer, spec, rng }, index, count) => {
+      const size = frameSize(spec.height);
+      const depth = spec.baseRadius * 0.3;
+
+      // Random opaque pixel, jittered inside its cell
+      const pickPixel = () => {
+        const cell = filled[Math.floor(rng() * filled.length)];
+        const px = cell % grid.width;
+        const py = Math.floor(cell / grid.width);
+        const color = pixelColor(grid, px, py);
+        const luminance = 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b;
+        const p = toWorld(px + rng(), py + rng(), size);
+        return new THREE.Vector3(p.x, p.y, (luminance - 0.5) * depth);
+      };
+
+      switch (layer) {
+        case 'spiral': {
+          // Fairy lights run around the picture frame
+          const t = index / count;
+          const perimeter = 2 * (size.width + size.height);
+          let d = t * perimeter;
+          const halfW = size.width / 2 + 0.5;
+          const halfH = size.height / 2 + 0.5;
+          if (d < size.width) return new THREE.Vector3(-halfW + d, halfH, 0);
+          d -= size.width;
+          if (d < size.height) return new THREE.Vector3(halfW, halfH - d, 0);
+          d -= size.height;
+          if (d < size.width) return new THREE.Vector3(halfW - d, -halfH, 0);
+          d -= size.width;
+          return new THREE.Vector3(-halfW, -halfH + d, 0);
+        }
+        case 'star':
+          return new THREE.Vector3(0, size.height / 2 + 1.5, 0);
+        case 'keepsake':
+          return new THREE.Vector3(size.width / 2 + 0.8, -size.height / 2 + 0.8, depth);
+        case 'ornament': {
+          const p = pickPixel();
+          p.z += depth * 0.5;
+          return p;
+        }
+        default:
+          return pickPixel();
+      }
+    },
+    color: ({ spec }, position) => {
+      const size = frameSize(spec.height);
+      const px = Math.floor((position.x / size.width + 0.5) * grid.width);
+      const py = Math.floor((0.5 - position.y / size.height) * grid.height);
+      if (px < 0 || py < 0 || px >= grid.width || py >= grid.height) return null;
+      return pixelColor(grid, px, py);
+    }
+  };
+};
+
+// Downsample an image file into a pixel grid
+export const readImagePixels = async (file: Blob): Promise<PixelGrid> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not read the image: 2D canvas is unavailable');
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+};
+
+// Registers a formation from a local image file; resolves to its id
+export const registerImageFormation = async (file: File): Promise<FormationId> => {
+  const id = `image:${hashString(`${file.name}:${file.size}:${file.lastModified}`)}`;
+  const label = file.name.replace(/\.[^.]+$/, '');
+  registerFormation(createImageFormation(id, label, await readImagePixels(file)));
+  return id;
+};
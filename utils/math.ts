@@ -1,12 +1,14 @@
 import * as THREE from 'three';
+import { Rng } from './random';
+import { TreeSpec, TreeProfile } from '../types';
 
 // Generate a random point inside a sphere
-export const getRandomSpherePoint = (radius: number): THREE.Vector3 => {
-  const u = Math.random();
-  const v = Math.random();
+export const getRandomSpherePoint = (radius: number, rng: Rng): THREE.Vector3 => {
+  const u = rng();
+  const v = rng();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(rng()) * radius;
   
   const sinPhi = Math.sin(phi);
   const x = r * sinPhi * Math.cos(theta);
@@ -16,31 +18,52 @@ export const getRandomSpherePoint = (radius: number): THREE.Vector3 => {
   return new THREE.Vector3(x, y, z);
 };
 
+// Straight cone: widest at bottom (t=0), zero at top (t=1)
+export const linearTaper: TreeProfile = (t) => 1 - t;
+
+export const DEFAULT_TREE_SPEC: TreeSpec = {
+  height: 14,
+  baseRadius: 6,
+  spirals: 15,
+  taper: linearTaper
+};
+
+// Radius of the tree silhouette at normalized height t
+export const getTreeRadius = (spec: TreeSpec, t: number): number => {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  return spec.baseRadius * spec.taper(clamped);
+};
+
+// World-space y for a normalized height t (tree is centered on y = 0)
+export const getTreeHeightAt = (spec: TreeSpec, t: number): number => {
+  return (t - 0.5) * spec.height;
+};
+
 // Generate a point on a conical spiral (The Christmas Tree shape)
 export const getTreeSpiralPoint = (
   t: number, // 0 to 1 normalized height
-  maxRadius: number,
-  height: number,
-  spirals: number = 8,
-  jitter: number = 0.5
+  spec: TreeSpec,
+  jitter: number,
+  rng: Rng,
+  radiusScale: number = 1, // < 1 tucks a layer inside the foliage
+  heightScale: number = 1
 ): THREE.Vector3 => {
   // y goes from -height/2 to height/2
-  const y = (t - 0.5) * height;
+  const y = getTreeHeightAt(spec, t) * heightScale;
   
-  // Radius decreases as we go up
-  // Taper function: widest at bottom (t=0), zero at top (t=1)
-  const currentRadius = maxRadius * (1 - t);
+  // Radius decreases as we go up, following the spec's taper
+  const currentRadius = getTreeRadius(spec, t) * radiusScale;
   
   // Angle for spiral
-  const angle = t * Math.PI * 2 * spirals;
+  const angle = t * Math.PI * 2 * spec.spirals;
   
   const x = Math.cos(angle) * currentRadius;
   const z = Math.sin(angle) * currentRadius;
 
   // Add some randomness so it's not a perfect line
-  const randX = (Math.random() - 0.5) * jitter;
-  const randY = (Math.random() - 0.5) * jitter;
-  const randZ = (Math.random() - 0.5) * jitter;
+  const randX = (rng() - 0.5) * jitter;
+  const randY = (rng() - 0.5) * jitter;
+  const randZ = (rng() - 0.5) * jitter;
 
   return new THREE.Vector3(x + randX, y + randY, z + randZ);
 };
@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { CAROL_TITLE, renderCarol } from './carol';
+
+// What the scene reacts to, all 0 -> 1 and eased; read every frame
+export interface MusicLevels {
+  bass: number;   // 20-150 Hz: ornament pulse
+  mid: number;    // 300-2000 Hz: foliage brightness
+  beat: number;   // Jumps to 1 on a detected beat, then decays: spiral / star flash
+  active: number; // Fades in while playing, so visuals blend back to their idle motion
+}
+
+export interface MusicState {
+  playing: boolean;
+  loading: boolean;
+  volume: number;       // 0 -> 1
+  track: string | null; // Title of the loaded track
+  error: string | null; // Why the last attempt to play failed
+}
+
+type Listener = (state: MusicState) => void;
+
+export interface MusicController {
+  readonly levels: MusicLevels;
+  readonly state: MusicState; // Replaced on every change (safe as a React snapshot)
+
+  // These never reject; failures (autoplay blocked, undecodable file) land in state.error
+  playCarol: () => Promise<void>;
+  loadFile: (file: File) => Promise<void>;
+  toggle: () => Promise<void>; // Play / pause (starts the carol if nothing is loaded)
+  setVolume: (volume: number) => void;
+  update: (delta: number) => void;
+
+  onChange: (listener: Listener) => () => void;
+}
+
+interface AudioGraph {
+  ctx: AudioContext;
+  analyser: AnalyserNode;
+  gain: GainNode;
+  bins: Uint8Array<ArrayBuffer>;
+}
+
+// Beat = bass clearly above its recent average, at most every MIN_BEAT_GAP seconds
+const BEAT_THRESHOLD = 1.25;
+const MIN_BEAT_GAP = 0.2;
+
+// Plays one looping track through an analyser and turns it into levels for
+// the scene. Ticked alongside the transition and theme controllers.
+export const createMusicController = (): MusicController => {
+  const listeners = new Set<Listener>();
+  const levels: MusicLevels = { bass: 0, mid: 0, beat: 0, active: 0 };
+  let state: MusicState = { playing: false, loading: false, volume: 0.6, track: null, error: null };
+  let graph: AudioGraph | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let carol: AudioBuffer | null = null;
+  let bassAverage = 0;
+  let sinceBeat = 0;
+
+  const setState = (next: Partial<MusicState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  // Created on first use: browsers only allow audio after a user gesture
+  const getGraph = (): AudioGraph => {
+    if (graph) return graph;
+    const ctx = new AudioContext();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.6;
+    const gain = ctx.createGain();
+    gain.gain.value = state.volume;
+    // The analyser sits before the volume, so visuals don't depend on it
+    analyser.connect(gain).connect(ctx.destination);
+    graph = { ctx, analyser, gain, bins: new Uint8Array(analyser.frequencyBinCount) };
+    return graph;
+  };
+
+  const play = async (buffer: AudioBuffer, title: string) => {
+    const { ctx, analyser } = getGraph();
+    source?.stop();
+    source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(analyser);
+    source.start();
+    await ctx.resume();
+    setState({ playing: true, loading: false, track: title });
+  };
+
+  // Average level of the analyser bins between two frequencies
+  const band = ({ ctx, analyser, bins }: AudioGraph, low: number, high: number) => {
+    const hzPerBin = ctx.sampleRate / analyser.fftSize;
+    const from = Math.max(1, Math.floor(low / hzPerBin));
+    const to = Math.min(bins.length - 1, Math.ceil(high / hzPerBin));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += bins[i];
+    return sum / ((to - from + 1) * 255);
+  };
+
+  const controller: MusicController = {
+    get levels() { return levels; },
+    get state() { return state; },
+
+    playCarol: async () => {
+      setState({ loading: true, error: null });
+      try {
+        carol ??= await renderCarol();
+        await play(carol, CAROL_TITLE);
+      } catch (err) {
+        setState({ loading: false, error: (err as Error).message });
+      }
+    },
+
+    loadFile: async (file) => {
+      setState({ loading: true, error: null });
+      try {
+        const { ctx } = getGraph();
+        const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+        await play(buffer, file.name.replace(/\.[^.]+$/, ''));
+      } catch {
+        setState({ loading: false, error: `Could not play "${file.name}"; is it an audio file?` });
+      }
+    },
+
+    toggle: async () => {
+      if (!graph || !source) return controller.playCarol();
+      try {
+        if (state.playing) {
+          await graph.ctx.suspend();
+          setState({ playing: false, error: null });
+        } else {
+          await graph.ctx.resume();
+          setState({ playing: true, error: null });
+        }
+      } catch (err) {
+        setState({ error: (err as Error).message });
+      }
+    },
+
+    setVolume: (volume) => {
+      if (graph) graph.gain.gain.value = volume;
+      setState({ volume });
+    },
+
+    update: (delta) => {
+      levels.active = THREE.MathUtils.damp(levels.active, state.playing ? 1 : 0, 3, delta);
+      sinceBeat += delta;
+      levels.beat *= Math.exp(-delta * 6);
+      if (!graph || !state.playing) {
+        levels.bass = THREE.MathUtils.damp(levels.bass, 0, 6, delta);
+        levels.mid = THREE.MathUtils.damp(levels.mid, 0, 6, delta);
+        return;
+      }
+
+      graph.analyser.getByteFrequencyData(graph.bins);
+      const bass = band(graph, 20, 150);
+      const mid = band(graph, 300, 2000);
+      levels.bass = THREE.MathUtils.damp(levels.bass, bass, 20, delta);
+      levels.mid = THREE.MathUtils.damp(levels.mid, mid, 12, delta);
+
+      if (bass > bassAverage * BEAT_THRESHOLD + 0.05 && sinceBeat > MIN_BEAT_GAP) {
+        levels.beat = 1;
+        sinceBeat = 0;
+      }
+      bassAverage = THREE.MathUtils.damp(bassAverage, bass, 3, delta);
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+
+  return controller;
+};
@@ -0,0 +1,115 @@
+import { TreeProfile } from '../types';
+import { linearTaper } from './math';
+
+// A control point for a user-defined silhouette: [normalized height, radius multiplier]
+export type ProfilePoint = [number, number];
+
+// Classic fir: stacked layers, each widest at its lower edge where the
+// branch tips droop, then pulling in before the next layer starts
+export const createTieredFirProfile = (
+  tiers: number = 5,
+  droop: number = 0.35
+): TreeProfile => {
+  return (t) => {
+    const envelope = 1 - t;
+    // Position inside the current tier (0 = drooping lower edge, 1 = top of tier)
+    const u = (t * tiers) % 1;
+    const tierShape = 1 - droop * Math.pow(u, 0.6);
+    return envelope * tierShape;
+  };
+};
+
+// Slim alpine spruce: narrow, with a slightly concave taper
+export const createAlpineSpruceProfile = (slimness: number = 0.55): TreeProfile => {
+  return (t) => slimness * Math.pow(1 - t, 1.2);
+};
+
+// Round topiary: a ball of foliage on a short clipped stem
+export const createTopiaryProfile = (
+  stemHeight: number = 0.15,
+  stemRadius: number = 0.08
+): TreeProfile => {
+  return (t) => {
+    if (t < stemHeight) return stemRadius;
+    const u = (t - stemHeight) / (1 - stemHeight);
+    const ball = Math.sqrt(Math.max(0, 1 - Math.pow(2 * u - 1, 2)));
+    return Math.max(ball, u < 0.5 ? stemRadius : 0);
+  };
+};
+
+// User-defined silhouette from control points, smoothly interpolated
+// (Catmull-Rom) and never allowed to go negative
+export const createCurveProfile = (points: ProfilePoint[]): TreeProfile => {
+  if (points.length === 0) {
+    throw new Error('createCurveProfile: at least one control point is required');
+  }
+
+  const sorted = [...points].sort((a, b) => a[0] - b[0]);
+
+  return (t) => {
+    if (t <= sorted[0][0]) return Math.max(0, sorted[0][1]);
+    const last = sorted[sorted.length - 1];
+    if (t >= last[0]) return Math.max(0, last[1]);
+
+    // Find the segment containing t
+    let i = 0;
+    while (i < sorted.length - 2 && t > sorted[i + 1][0]) i++;
+
+    const p0 = sorted[Math.max(i - 1, 0)][1];
+    const p1 = sorted[i][1];
+    const p2 = sorted[i + 1][1];
+    const p3 = sorted[Math.min(i + 2, sorted.length - 1)][1];
+
+    const span = sorted[i + 1][0] - sorted[i][0];
+    const s = span > 0 ? (t - sorted[i][0]) / span : 0;
+    const s2 = s * s;
+    const s3 = s2 * s;
+
+    const value = 0.5 * (
+      2 * p1 +
+      (-p0 + p2) * s +
+      (2 * p0 - 5 * p1 + 4 * p2 - p3) * s2 +
+      (-p0 + 3 * p1 - 3 * p2 + p3) * s3
+    );
+
+    return Math.max(0, value);
+  };
+};
+
+export const TREE_PROFILES = {
+  cone: linearTaper,
+  fir: createTieredFirProfile(),
+  spruce: createAlpineSpruceProfile(),
+  topiary: createTopiaryProfile()
+};
+
+export type TreeProfileName = keyof typeof TREE_PROFILES;
+
+export const isTreeProfileName = (value: string | null): value is TreeProfileName => {
+  return value !== null && value in TREE_PROFILES;
+};
+
+// Parses "0:1,0.5:0.6,1:0" into control points; returns null if malformed
+export const parseProfilePoints = (value: string | null): ProfilePoint[] | null => {
+  if (!value) return null;
+
+  const points: ProfilePoint[] = [];
+  for (const pair of value.split(',')) {
+    const [t, r] = pair.split(':').map(Number);
+    if (!Number.isFinite(t) || !Number.isFinite(r)) return null;
+    points.push([t, r]);
+  }
+  return points.length > 0 ? points : null;
+};
+
+// Pick the silhouette from the URL: ?shape=fir, or ?curve=0:1,0.5:0.6,1:0
+export const getUrlProfile = (): TreeProfile => {
+  if (typeof window === 'undefined') return linearTaper;
+
+  const params = new URLSearchParams(window.location.search);
+  const curve = parseProfilePoints(params.get('curve'));
+  if (curve) return createCurveProfile(curve);
+
+  const shape = params.get('shape');
+  return isTreeProfileName(shape) ? TREE_PROFILES[shape] : linearTaper;
+};
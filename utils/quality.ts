@@ -0,0 +1,122 @@
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+// 'auto' follows measured frame time; a tier forces that level
+export type QualityMode = 'auto' | QualityTier;
+
+// Which post-processing passes run: minimal = bloom + vignette,
+// standard = + grain and chromatic aberration, full = + depth of field and god rays
+export type EffectsLevel = 'minimal' | 'standard' | 'full';
+
+export interface QualitySettings {
+  countScale: number;              // Multiplier on foliage, spiral and ornament counts
+  dpr: number | [number, number];  // Canvas device pixel ratio (range = adaptive)
+  shadows: boolean;
+  shadowMapSize: number;
+  contactShadowResolution: number;
+  effects: EffectsLevel;
+  mipmapBloom: boolean;
+  multisampling: number;
+}
+
+// Ordered from cheapest to richest. High matches the original look.
+export const QUALITY_TIERS: { id: QualityTier; label: string; settings: QualitySettings }[] = [
+  {
+    id: 'low',
+    label: 'Low',
+    settings: {
+      countScale: 0.35,
+      dpr: 1,
+      shadows: false,
+      shadowMapSize: 256,
+      contactShadowResolution: 128,
+      effects: 'minimal',
+      mipmapBloom: false,
+      multisampling: 0
+    }
+  },
+  {
+    id: 'medium',
+    label: 'Medium',
+    settings: {
+      countScale: 0.65,
+      dpr: [1, 1.5],
+      shadows: true,
+      shadowMapSize: 512,
+      contactShadowResolution: 128,
+      effects: 'standard',
+      mipmapBloom: true,
+      multisampling: 0
+    }
+  },
+  {
+    id: 'high',
+    label: 'High',
+    settings: {
+      countScale: 1,
+      dpr: [1, 2],
+      shadows: true,
+      shadowMapSize: 512,
+      contactShadowResolution: 256,
+      effects: 'full',
+      mipmapBloom: true,
+      multisampling: 8
+    }
+  },
+  {
+    id: 'ultra',
+    label: 'Ultra',
+    settings: {
+      countScale: 1,
+      dpr: [1, 2.5],
+      shadows: true,
+      shadowMapSize: 2048,
+      contactShadowResolution: 512,
+      effects: 'full',
+      mipmapBloom: true,
+      multisampling: 8
+    }
+  }
+];
+
+// Where auto mode starts before it has measured anything, and the most it
+// will climb to on its own (Ultra has to be asked for)
+export const DEFAULT_QUALITY_TIER: QualityTier = 'high';
+export const MAX_AUTO_QUALITY_TIER: QualityTier = 'high';
+
+export const getQualitySettings = (tier: QualityTier): QualitySettings => {
+  return QUALITY_TIERS.find((t) => t.id === tier)!.settings;
+};
+
+// One tier up or down, clamped between Low and `max`
+export const stepQualityTier = (tier: QualityTier, direction: 1 | -1, max: QualityTier = 'ultra'): QualityTier => {
+  const index = QUALITY_TIERS.findIndex((t) => t.id === tier);
+  const maxIndex = QUALITY_TIERS.findIndex((t) => t.id === max);
+  const next = Math.min(maxIndex, Math.max(0, index + direction));
+  return QUALITY_TIERS[next].id;
+};
+
+export const scaleCount = (count: number, settings: QualitySettings) => Math.round(count * settings.countScale);
+
+const STORAGE_KEY = 'arix-tree-quality';
+
+const isQualityMode = (value: string | null): value is QualityMode => {
+  return value === 'auto' || QUALITY_TIERS.some((t) => t.id === value);
+};
+
+// The user's forced tier survives reloads; anything else means auto
+export const loadQualityMode = (): QualityMode => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isQualityMode(stored) ? stored : 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+export const saveQualityMode = (mode: QualityMode) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Private mode / storage disabled: the choice just won't persist
+  }
+};
@@ -0,0 +1,59 @@
+// Seedable random number generation.
+// Every layout in the scene draws from one of these instead of Math.random(),
+// so the same seed always produces the same tree.
+
+export type Rng = () => number;
+
+export const DEFAULT_SEED = 20251225;
+
+// Mulberry32: tiny, fast and good enough for visual scattering
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a hash, used to turn strings into 32-bit seeds
+export const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Give each generator its own stream so adding particles to one layer
+// doesn't reshuffle every other layer
+export const deriveSeed = (seed: number, key: string): number => {
+  return hashString(`${seed}:${key}`);
+};
+
+// Accepts either a plain integer ("?seed=42") or any word ("?seed=snowy")
+export const parseSeed = (value: string | null): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashString(trimmed);
+};
+
+// Read the seed from the URL, or pick one and write it back so the
+// current tree can be shared by copying the address bar
+export const getUrlSeed = (): number => {
+  if (typeof window === 'undefined') return DEFAULT_SEED;
+
+  const url = new URL(window.location.href);
+  const existing = parseSeed(url.searchParams.get('seed'));
+  if (existing !== null) return existing;
+
+  const seed = Math.floor(Math.random() * 4294967296) >>> 0;
+  url.searchParams.set('seed', String(seed));
+  window.history.replaceState(null, '', url.toString());
+  return seed;
+};
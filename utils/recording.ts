@@ -0,0 +1,205 @@
+import { SnapshotController } from './snapshot';
+import { createGifEncoder } from './gif';
+import { muxWebm, WebmChunk, WebmTrack } from './webm';
+
+export type RecordingFormat = 'webm' | 'gif';
+
+export interface RecordingSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Even sizes only: VP8 / VP9 need them
+export const RECORDING_SIZES: RecordingSize[] = [
+  { id: '480p', label: '480p', width: 854, height: 480 },
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: 'square', label: 'Square 1080', width: 1080, height: 1080 }
+];
+
+export const RECORDING_FRAME_RATES = [24, 30, 60];
+
+// GIF delays are whole hundredths of a second, and browsers slow down
+// anything under two, so GIFs are capped to this rate
+export const MAX_GIF_FRAME_RATE = 25;
+
+// Something to do when the recording reaches `at` seconds, e.g. start a transition
+export interface RecordingCue {
+  at: number;
+  run: () => void;
+}
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  width: number;
+  height: number;
+  duration: number; // Seconds of (virtual) time
+  fps: number;
+  cues: RecordingCue[];
+}
+
+export interface RecorderState {
+  recording: boolean;
+  progress: number; // 0 -> 1 through the frames
+}
+
+type Listener = (state: RecorderState) => void;
+
+export interface Recorder {
+  readonly state: RecorderState; // Replaced on every change (safe as a React snapshot)
+  record: (options: RecordingOptions) => Promise<Blob>;
+  cancel: () => void;
+  onChange: (listener: Listener) => () => void;
+}
+
+// Turns rendered canvases into a file
+interface FrameSink {
+  // Reads the canvas before its first await, while the frame is still on it
+  addFrame: (canvas: HTMLCanvasElement) => Promise<void>;
+  finish: () => Promise<Blob>;
+  close: () => void;
+}
+
+const createGifSink = (width: number, height: number, fps: number): FrameSink => {
+  const gif = createGifEncoder(width, height);
+  const scratch = document.createElement('canvas');
+  scratch.width = width;
+  scratch.height = height;
+  const ctx = scratch.getContext('2d', { willReadFrequently: true })!;
+  let frame = 0;
+
+  return {
+    addFrame: async (canvas) => {
+      ctx.drawImage(canvas, 0, 0, width, height, 0, 0, width, height);
+      // Spread the rounding so the average rate is exact
+      const delay = Math.round(((frame + 1) * 100) / fps) - Math.round((frame * 100) / fps);
+      gif.addFrame(ctx.getImageData(0, 0, width, height).data, delay);
+      frame++;
+    },
+    finish: async () => gif.finish(),
+    close: () => {}
+  };
+};
+
+// Preferred first
+const WEBM_CODECS: { codec: string; track: WebmTrack['codec'] }[] = [
+  { codec: 'vp09.00.10.08', track: 'V_VP9' },
+  { codec: 'vp8', track: 'V_VP8' }
+];
+
+const createWebmSink = async (width: number, height: number, fps: number): Promise<FrameSink> => {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error('This browser cannot encode video; try GIF instead');
+  }
+  const bitrate = Math.round(width * height * fps * 0.15);
+  let chosen: { config: VideoEncoderConfig; track: WebmTrack['codec'] } | null = null;
+  for (const { codec, track } of WEBM_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) {
+      chosen = { config, track };
+      break;
+    }
+  }
+  if (!chosen) throw new Error('This browser cannot encode WebM video; try GIF instead');
+  const track = chosen.track;
+
+  const chunks: WebmChunk[] = [];
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      chunks.push({ data, timestamp: chunk.timestamp / 1000, key: chunk.type === 'key' });
+    },
+    error: (err) => { failure = err; }
+  });
+  encoder.configure(chosen.config);
+  let frame = 0;
+
+  return {
+    addFrame: async (canvas) => {
+      if (failure) throw failure;
+      const timestamp = Math.round((frame * 1e6) / fps);
+      const videoFrame = new VideoFrame(canvas, { timestamp, duration: Math.round(1e6 / fps) });
+      // A keyframe every two seconds keeps seeking cheap
+      encoder.encode(videoFrame, { keyFrame: frame % (fps * 2) === 0 });
+      videoFrame.close();
+      frame++;
+      // Don't queue frames faster than the encoder drains them
+      while (encoder.encodeQueueSize > 4) await new Promise((resolve) => setTimeout(resolve, 5));
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (failure) throw failure;
+      return muxWebm({ codec: track, width, height, duration: (frame * 1000) / fps }, chunks);
+    },
+    close: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    }
+  };
+};
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Records the scene frame by frame on a virtual clock: every frame is
+// rendered and every animation steps exactly 1/fps, however slow the device.
+export const createRecorder = (snapshot: SnapshotController): Recorder => {
+  const listeners = new Set<Listener>();
+  let state: RecorderState = { recording: false, progress: 0 };
+  let cancelled = false;
+
+  const setState = (next: RecorderState) => {
+    state = next;
+    listeners.forEach((listener) => listener(state));
+  };
+
+  return {
+    get state() { return state; },
+
+    record: async ({ format, width, height, duration, fps: requestedFps, cues }) => {
+      if (state.recording) throw new Error('Already recording');
+      const renderer = snapshot.renderer;
+      if (!renderer) throw new Error('The scene is still loading');
+
+      const fps = format === 'gif' ? Math.min(requestedFps, MAX_GIF_FRAME_RATE) : requestedFps;
+      const frames = Math.max(1, Math.round(duration * fps));
+      const sink = format === 'gif' ? createGifSink(width, height, fps) : await createWebmSink(width, height, fps);
+      const pending = [...cues].sort((a, b) => a.at - b.at);
+
+      cancelled = false;
+      setState({ recording: true, progress: 0 });
+      let restore: (() => void) | null = null;
+      try {
+        restore = renderer.resize(width, height);
+        renderer.setManualClock(true);
+        for (let i = 0; i < frames; i++) {
+          if (cancelled) throw new Error('Recording cancelled');
+          while (pending.length > 0 && pending[0].at <= i / fps) pending.shift()!.run();
+          // Lets React apply whatever the cues changed, and keeps the page responsive
+          await nextTask();
+          renderer.advance(1 / fps);
+          await sink.addFrame(renderer.canvas);
+          setState({ recording: true, progress: (i + 1) / frames });
+        }
+        return await sink.finish();
+      } finally {
+        sink.close();
+        if (restore) {
+          renderer.setManualClock(false);
+          restore();
+        }
+        setState({ recording: false, progress: 0 });
+      }
+    },
+
+    cancel: () => { cancelled = true; },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
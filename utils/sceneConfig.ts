@@ -0,0 +1,275 @@
+import {
+  SceneConfig,
+  OrnamentGroupConfig,
+  LightConfig,
+  PostProcessingConfig,
+  CameraConfig,
+  TransitionConfig,
+  SnowConfig,
+  EnvironmentPreset,
+  GrainPreset,
+  Vec3Tuple
+} from '../types';
+import classicScene from '../scenes/classic.json';
+
+// Thrown for configs that don't match the schema. `issues` lists every
+// problem found, each prefixed with the path to the bad value.
+export class SceneConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scene config:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'SceneConfigError';
+    this.issues = issues;
+  }
+}
+
+// --- Schema ---
+
+// A check returns the value it accepts, or reports what's wrong and returns undefined
+type Check<T> = (value: unknown, path: string, issues: string[]) => T | undefined;
+
+const describe = (value: unknown) => {
+  if (Array.isArray(value)) return value.length <= 4 ? JSON.stringify(value) : `an array of ${value.length}`;
+  if (value === null) return 'null';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+const fail = (issues: string[], path: string, expected: string, value: unknown) => {
+  issues.push(`${path}: expected ${expected}, got ${describe(value)}`);
+  return undefined;
+};
+
+const number = ({ min = -Infinity, max = Infinity, integer = false } = {}): Check<number> => (value, path, issues) => {
+  const kind = integer ? 'a whole number' : 'a number';
+  const bounds = max === Infinity
+    ? (min === -Infinity ? '' : ` of at least ${min}`)
+    : ` from ${min} to ${max}`;
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min || value > max) {
+    return fail(issues, path, kind + bounds, value);
+  }
+  return value;
+};
+
+const boolean: Check<boolean> = (value, path, issues) => {
+  return typeof value === 'boolean' ? value : fail(issues, path, 'true or false', value);
+};
+
+const string: Check<string> = (value, path, issues) => {
+  return typeof value === 'string' ? value : fail(issues, path, 'a string', value);
+};
+
+const color: Check<string> = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) {
+    return fail(issues, path, 'a hex color like "#D4AF37"', value);
+  }
+  return value;
+};
+
+const oneOf = <T extends string>(options: readonly T[]): Check<T> => (value, path, issues) => {
+  if (!options.includes(value as T)) {
+    return fail(issues, path, `one of ${options.map((o) => `"${o}"`).join(', ')}`, value);
+  }
+  return value as T;
+};
+
+const vec3: Check<Vec3Tuple> = (value, path, issues) => {
+  if (!Array.isArray(value) || value.length !== 3 || value.some((v) => typeof v !== 'number' || !Number.isFinite(v))) {
+    return fail(issues, path, 'three numbers [x, y, z]', value);
+  }
+  return value as Vec3Tuple;
+};
+
+const vec2: Check<[number, number]> = (value, path, issues) => {
+  if (!Array.isArray(value) || value.length !== 2 || value.some((v) => typeof v !== 'number' || !Number.isFinite(v))) {
+    return fail(issues, path, 'two numbers [x, z]', value);
+  }
+  return value as [number, number];
+};
+
+const heightRange: Check<[number, number]> = (value, path, issues) => {
+  if (!Array.isArray(value) || value.length !== 2 || value.some((v) => typeof v !== 'number' || v < 0 || v > 1) || value[0] >= value[1]) {
+    return fail(issues, path, 'a [min, max] height band with 0 <= min < max <= 1', value);
+  }
+  return value as [number, number];
+};
+
+const array = <T>(item: Check<T>, { min = 0 } = {}): Check<T[]> => (value, path, issues) => {
+  if (!Array.isArray(value)) return fail(issues, path, 'an array', value);
+  if (value.length < min) return fail(issues, path, `at least ${min} item${min === 1 ? '' : 's'}`, value);
+  const out = value.map((v, i) => item(v, `${path}[${i}]`, issues));
+  return out.every((v) => v !== undefined) ? out as T[] : undefined;
+};
+
+// Keys marked optional may be left out; anything not in the shape is a typo
+type Shape<T> = { [K in keyof T]-?: Check<T[K]> };
+
+const object = <T>(shape: Shape<T>, optional: (keyof T)[] = []): Check<T> => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(issues, path, 'an object', value);
+  }
+  const record = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  let ok = true;
+
+  for (const key of Object.keys(record)) {
+    if (!(key in shape)) {
+      issues.push(`${path}.${key}: unknown setting (expected one of ${Object.keys(shape).join(', ')})`);
+      ok = false;
+    }
+  }
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    if (record[key] === undefined) {
+      if (optional.includes(key)) continue;
+      issues.push(`${path}.${key}: missing`);
+      ok = false;
+      continue;
+    }
+    const checked = shape[key](record[key], `${path}.${key}`, issues);
+    if (checked === undefined) ok = false;
+    out[key] = checked;
+  }
+  return ok ? out as T : undefined;
+};
+
+// Picks the shape by a `type` field, e.g. lights
+const tagged = <T extends { type: string }>(shapes: { [K in T['type']]: Check<T> }): Check<T> => (value, path, issues) => {
+  const type = (value as { type?: unknown } | null)?.type;
+  const types = Object.keys(shapes) as T['type'][];
+  if (!types.includes(type as T['type'])) {
+    return fail(issues, `${path}.type`, `one of ${types.map((t) => `"${t}"`).join(', ')}`, type);
+  }
+  return shapes[type as T['type']](value, path, issues);
+};
+
+const unit = number({ min: 0, max: 1 });
+const positive = number({ min: 0 });
+const count = (max: number) => number({ min: 0, max, integer: true });
+
+export const ENVIRONMENT_PRESETS: EnvironmentPreset[] = [
+  'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'studio', 'sunset', 'warehouse'
+];
+
+const ornamentGroup = object<OrnamentGroupConfig>({
+  name: string,
+  type: oneOf(['box', 'sphere', 'diamond']),
+  count: count(2000),
+  color,
+  metalness: unit,
+  roughness: unit,
+  scale: number({ min: 0.01, max: 10 }),
+  range: heightRange
+}, ['name', 'metalness', 'roughness', 'scale', 'range']);
+
+const light = tagged<LightConfig>({
+  ambient: object({ type: oneOf(['ambient']), color, intensity: positive }),
+  point: object({ type: oneOf(['point']), color, intensity: positive, position: vec3 }),
+  spot: object({
+    type: oneOf(['spot']),
+    color,
+    intensity: positive,
+    position: vec3,
+    angle: number({ min: 0, max: Math.PI / 2 }),
+    penumbra: unit,
+    castShadow: boolean
+  }, ['castShadow'])
+});
+
+export const GRAIN_PRESETS: GrainPreset[] = ['none', 'subtle', 'film', 'vintage'];
+
+const postProcessing = object<PostProcessingConfig>({
+  bloom: object({ threshold: unit, intensity: positive, radius: unit, burstIntensity: positive }),
+  chromaticAberration: object({ offset: number({ min: 0, max: 0.05 }), burstOffset: number({ min: 0, max: 0.05 }) }),
+  depthOfField: object({
+    enabled: boolean,
+    focusDistance: number({ min: 0, max: 100 }),
+    focusRange: number({ min: 0.1, max: 100 }),
+    bokehScale: number({ min: 0, max: 20 })
+  }),
+  godRays: object({
+    enabled: boolean,
+    density: unit,
+    decay: unit,
+    weight: unit,
+    exposure: unit,
+    samples: count(200)
+  }),
+  grain: oneOf(GRAIN_PRESETS),
+  vignette: object({ offset: unit, darkness: unit })
+});
+
+// Limits shared with the tuning panel's sliders
+export const CAMERA_DISTANCE_LIMITS = { min: 2, max: 50 };
+
+const camera = object<CameraConfig>({
+  treeDistance: number(CAMERA_DISTANCE_LIMITS),
+  scatterDistance: number(CAMERA_DISTANCE_LIMITS),
+  zoomSpeed: number({ min: 0.1, max: 20 })
+});
+
+const snow = object<SnowConfig>({
+  count: count(50000),
+  wind: vec2,
+  turbulence: number({ min: 0, max: 10 })
+});
+
+const seconds = number({ min: 0, max: 30 });
+
+const transition = object<TransitionConfig>({
+  gatherDuration: seconds,
+  releaseDuration: seconds,
+  burstStrength: number({ min: 0, max: 10 }),
+  burstDuration: seconds
+});
+
+const sceneConfig = object<SceneConfig>({
+  environment: oneOf(ENVIRONMENT_PRESETS),
+  foliage: object({ count: count(50000) }),
+  spiral: object({ count: count(2000) }),
+  snow,
+  star: object({ color, glow: positive, lightIntensity: positive, lightDistance: positive }),
+  ornaments: array(ornamentGroup),
+  lights: array(light, { min: 1 }),
+  postProcessing,
+  camera,
+  transition
+});
+
+// --- Loading ---
+
+// Checks an already-parsed config; throws SceneConfigError listing every problem
+export const validateSceneConfig = (value: unknown): SceneConfig => {
+  const issues: string[] = [];
+  const config = sceneConfig(value, 'scene', issues);
+  if (!config || issues.length > 0) throw new SceneConfigError(issues);
+  return config;
+};
+
+// Parses and checks config JSON text
+export const parseSceneConfig = (json: string): SceneConfig => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err) {
+    throw new SceneConfigError([`not valid JSON (${(err as Error).message})`]);
+  }
+  return validateSceneConfig(value);
+};
+
+export const loadSceneConfig = async (url: string): Promise<SceneConfig> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new SceneConfigError([`could not load "${url}" (${response.status} ${response.statusText})`]);
+  }
+  return parseSceneConfig(await response.text());
+};
+
+// The bundled tree; checked at startup so a bad edit fails loudly
+export const DEFAULT_SCENE_CONFIG: SceneConfig = validateSceneConfig(classicScene);
+
+// Optional ?scene=<url> pointing at a JSON config to load instead
+export const getUrlSceneConfig = (): string | null => {
+  return new URLSearchParams(window.location.search).get('scene');
+};
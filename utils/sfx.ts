@@ -0,0 +1,263 @@
+import * as THREE from 'three';
+
+export interface SfxState {
+  muted: boolean;
+}
+
+type Listener = (state: SfxState) => void;
+
+export interface SfxController {
+  readonly state: SfxState; // Replaced on every change (safe as a React snapshot)
+
+  // Each sound is panned from its object's world position, followed while it plays
+  shimmer: (duration: number, source: THREE.Object3D) => void; // Rising, for a release
+  chime: (duration: number, source: THREE.Object3D) => void;   // Falling, resolving at the end
+  crunch: (source: THREE.Object3D) => void;                    // Short cookie pop
+  setMuted: (muted: boolean) => void;
+  update: (camera: THREE.Camera) => void; // Moves the listener and any playing sounds
+
+  onChange: (listener: Listener) => () => void;
+}
+
+interface SfxGraph {
+  ctx: AudioContext;
+  master: GainNode;
+  noise: AudioBuffer;
+}
+
+interface Voice {
+  panner: PannerNode;
+  source: THREE.Object3D;
+  end: number; // AudioContext time
+}
+
+const STORAGE_KEY = 'arix-tree-muted';
+
+const loadMuted = (): boolean => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const saveMuted = (muted: boolean) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(muted));
+  } catch {
+    // Private mode / storage disabled: the choice just won't persist
+  }
+};
+
+// Notes of a G major pentatonic, so any run of them sounds consonant
+const PENTATONIC = [0, 2, 4, 7, 9];
+const ROOT = 55; // G3
+
+const noteFrequency = (step: number) => {
+  const octave = Math.floor(step / PENTATONIC.length);
+  const note = ROOT + octave * 12 + PENTATONIC[((step % PENTATONIC.length) + PENTATONIC.length) % PENTATONIC.length];
+  return 440 * Math.pow(2, (note - 69) / 12);
+};
+
+const temp = new THREE.Vector3();
+const forward = new THREE.Vector3();
+const up = new THREE.Vector3();
+
+// Synthesized one-shots for the scene's big moments; no audio files. The
+// context is created on first use, which is always after a click.
+export const createSfxController = (): SfxController => {
+  const listeners = new Set<Listener>();
+  let state: SfxState = { muted: loadMuted() };
+  let graph: SfxGraph | null = null;
+  let voices: Voice[] = [];
+
+  const setState = (next: SfxState) => {
+    state = next;
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const getGraph = (): SfxGraph => {
+    if (graph) return graph;
+    const ctx = new AudioContext();
+    const master = ctx.createGain();
+    master.gain.value = 0.5;
+    master.connect(ctx.destination);
+    // One second of white noise, reused by every noisy sound
+    const noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    graph = { ctx, master, noise };
+    return graph;
+  };
+
+  // A panned output for one sound, tracking `source` until `duration` is up
+  const voice = (source: THREE.Object3D, duration: number) => {
+    const { ctx, master } = getGraph();
+    ctx.resume();
+    const panner = ctx.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'inverse';
+    // The camera sits ~30 units out; keep the level steady at that range
+    panner.refDistance = 20;
+    panner.rolloffFactor = 0.5;
+    source.getWorldPosition(temp);
+    panner.positionX.value = temp.x;
+    panner.positionY.value = temp.y;
+    panner.positionZ.value = temp.z;
+    panner.connect(master);
+    voices.push({ panner, source, end: ctx.currentTime + duration + 0.5 });
+    return { ctx, panner, start: ctx.currentTime + 0.02 };
+  };
+
+  // Struck tone: a sine plus a quieter inharmonic partial, decaying
+  const bell = (ctx: AudioContext, out: AudioNode, freq: number, at: number, decay: number, peak: number) => {
+    [[1, 1], [2.76, 0.25]].forEach(([ratio, level]) => {
+      const osc = ctx.createOscillator();
+      osc.frequency.value = freq * ratio;
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(peak * level, at + 0.005);
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + decay / ratio);
+      osc.connect(gain).connect(out);
+      osc.start(at);
+      osc.stop(at + decay + 0.05);
+    });
+  };
+
+  const noiseBurst = (graph: SfxGraph, out: AudioNode, at: number, length: number, filterHz: number, peak: number) => {
+    const { ctx, noise } = graph;
+    const src = ctx.createBufferSource();
+    src.buffer = noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = filterHz;
+    filter.Q.value = 1.5;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(peak, at);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + length);
+    src.connect(filter).connect(gain).connect(out);
+    src.start(at, Math.random() * (noise.duration - length));
+    src.stop(at + length + 0.01);
+  };
+
+  const controller: SfxController = {
+    get state() { return state; },
+
+    // Airy noise sweeping up under a climbing run of sparkles, fading as
+    // the pieces drift out
+    shimmer: (duration, source) => {
+      if (state.muted) return;
+      const { ctx, panner, start } = voice(source, duration);
+      const end = start + duration;
+
+      const air = ctx.createBufferSource();
+      air.buffer = getGraph().noise;
+      air.loop = true;
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.Q.value = 4;
+      filter.frequency.setValueAtTime(600, start);
+      filter.frequency.exponentialRampToValueAtTime(6000, end);
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.25, start + duration * 0.2);
+      gain.gain.linearRampToValueAtTime(0, end);
+      air.connect(filter).connect(gain).connect(panner);
+      air.start(start);
+      air.stop(end + 0.05);
+
+      const sparkles = Math.max(6, Math.round(duration * 8));
+      for (let i = 0; i < sparkles; i++) {
+        const t = i / sparkles;
+        const step = 10 + Math.floor(t * 10) + Math.floor(Math.random() * 3);
+        bell(ctx, panner, noteFrequency(step), start + t * duration, 0.6, 0.12 * (1 - t * 0.7));
+      }
+    },
+
+    // A falling run of bells timed to the gather, landing on a full chord
+    // exactly when the transition (and so the star) finishes
+    chime: (duration, source) => {
+      if (state.muted) return;
+      const { ctx, panner, start } = voice(source, duration + 2.5);
+      const end = start + duration;
+
+      const notes = Math.max(5, Math.round(duration * 4));
+      for (let i = 0; i < notes; i++) {
+        const t = i / notes;
+        // Bunches up toward the end, as the last pieces arrive
+        bell(ctx, panner, noteFrequency(19 - i % 15), start + Math.sqrt(t) * duration * 0.95, 0.9, 0.1);
+      }
+      [5, 7, 8, 10].forEach((step) => bell(ctx, panner, noteFrequency(step), end, 2.5, 0.16));
+    },
+
+    // A dull pop under a few crackly grains
+    crunch: (source) => {
+      if (state.muted) return;
+      const { ctx, panner, start } = voice(source, 0.3);
+
+      const osc = ctx.createOscillator();
+      osc.frequency.setValueAtTime(220, start);
+      osc.frequency.exponentialRampToValueAtTime(60, start + 0.08);
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0.6, start);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.12);
+      osc.connect(gain).connect(panner);
+      osc.start(start);
+      osc.stop(start + 0.15);
+
+      for (let i = 0; i < 5; i++) {
+        const at = start + i * 0.018 + Math.random() * 0.01;
+        noiseBurst(getGraph(), panner, at, 0.03 + Math.random() * 0.03, 1500 + Math.random() * 2500, 0.5);
+      }
+    },
+
+    setMuted: (muted) => {
+      saveMuted(muted);
+      if (graph) graph.master.gain.value = muted ? 0 : 0.5;
+      setState({ muted });
+    },
+
+    update: (camera) => {
+      if (!graph || voices.length === 0) return;
+      const { ctx } = graph;
+      const listener = ctx.listener;
+      camera.getWorldPosition(temp);
+      camera.getWorldDirection(forward);
+      up.set(0, 1, 0).applyQuaternion(camera.quaternion);
+      // Firefox only has the older setter methods
+      if (listener.positionX) {
+        listener.positionX.value = temp.x;
+        listener.positionY.value = temp.y;
+        listener.positionZ.value = temp.z;
+        listener.forwardX.value = forward.x;
+        listener.forwardY.value = forward.y;
+        listener.forwardZ.value = forward.z;
+        listener.upX.value = up.x;
+        listener.upY.value = up.y;
+        listener.upZ.value = up.z;
+      } else {
+        listener.setPosition(temp.x, temp.y, temp.z);
+        listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+      }
+
+      voices = voices.filter((v) => {
+        if (ctx.currentTime > v.end) {
+          v.panner.disconnect();
+          return false;
+        }
+        v.source.getWorldPosition(temp);
+        v.panner.positionX.value = temp.x;
+        v.panner.positionY.value = temp.y;
+        v.panner.positionZ.value = temp.z;
+        return true;
+      });
+    },
+
+    onChange: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+
+  return controller;
+};
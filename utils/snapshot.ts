@@ -0,0 +1,123 @@
+export interface SnapshotSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Print sizes are landscape at 300 dpi
+export const SNAPSHOT_SIZES: SnapshotSize[] = [
+  { id: 'hd', label: 'HD 1920×1080', width: 1920, height: 1080 },
+  { id: '4k', label: '4K 3840×2160', width: 3840, height: 2160 },
+  { id: 'square', label: 'Square 2048×2048', width: 2048, height: 2048 },
+  { id: 'a4', label: 'A4 Print 3508×2480', width: 3508, height: 2480 },
+  { id: 'a3', label: 'A3 Print 4961×3508', width: 4961, height: 3508 }
+];
+
+export const DEFAULT_SNAPSHOT_SIZE = '4k';
+
+// Same greeting as the Overlay header
+export const SNAPSHOT_GREETING = ['Merry', 'Christmas'];
+
+export interface SnapshotOptions {
+  size: SnapshotSize;
+  // Draw the greeting on top, as the page shows it
+  overlayText: boolean;
+  accent: string; // CSS color for the greeting
+}
+
+// What the scene exposes for off-screen output (snapshots and recordings)
+export interface SceneRenderer {
+  readonly canvas: HTMLCanvasElement;
+  // Sizes renderer, effects and camera for width x height output; returns an undo
+  resize: (width: number, height: number) => () => void;
+  render: () => void; // The current frame again, no time passing
+  // While the clock is manual the scene stands still until `advance` steps
+  // every animation by exactly `delta` seconds and renders the result
+  setManualClock: (manual: boolean) => void;
+  advance: (delta: number) => void;
+}
+
+export interface SnapshotController {
+  readonly renderer: SceneRenderer | null;
+  // Called by the scene; returns a detach function
+  attach: (renderer: SceneRenderer) => () => void;
+  capture: (options: SnapshotOptions) => Promise<Blob>;
+}
+
+// Copies the WebGL canvas; call right after rendering, before the browser clears it
+export const copyCanvas = (source: HTMLCanvasElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(source, 0, 0, width, height, 0, 0, width, height);
+  return canvas;
+};
+
+// Paints the greeting the way the Overlay header looks: top-left, serif,
+// glowing in the accent color. Sizes follow the image height, so a 4K shot
+// frames it like a ~900px tall window would.
+export const drawGreeting = (canvas: HTMLCanvasElement, accent: string) => {
+  const ctx = canvas.getContext('2d')!;
+  const unit = canvas.height / 900;
+  const fontSize = 72 * unit;
+  const padding = 32 * unit;
+
+  ctx.save();
+  ctx.font = `${fontSize}px serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = accent;
+  ctx.shadowColor = accent;
+  SNAPSHOT_GREETING.forEach((line, i) => {
+    const y = padding + i * fontSize;
+    // Two glow passes, like the header's double text-shadow
+    ctx.shadowBlur = 50 * unit;
+    ctx.fillText(line.toUpperCase(), padding, y);
+    ctx.shadowBlur = 25 * unit;
+    ctx.fillText(line.toUpperCase(), padding, y);
+  });
+  ctx.restore();
+};
+
+// Hands off between UI and scene: the scene attaches a renderer that knows
+// the composer, the UI asks for PNGs (and recordings, see utils/recording.ts).
+export const createSnapshotController = (): SnapshotController => {
+  let renderer: SceneRenderer | null = null;
+
+  return {
+    get renderer() { return renderer; },
+
+    attach: (next) => {
+      renderer = next;
+      return () => {
+        if (renderer === next) renderer = null;
+      };
+    },
+
+    capture: async ({ size, overlayText, accent }) => {
+      if (!renderer) throw new Error('The scene is still loading');
+      const restore = renderer.resize(size.width, size.height);
+      let canvas: HTMLCanvasElement;
+      try {
+        renderer.render();
+        canvas = copyCanvas(renderer.canvas, size.width, size.height);
+      } finally {
+        restore();
+      }
+      if (overlayText) drawGreeting(canvas, accent);
+      return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png');
+      });
+    }
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers haven't started reading the blob yet when click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
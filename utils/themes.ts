@@ -0,0 +1,215 @@
+import * as THREE from 'three';
+import { SceneConfig } from '../types';
+import { EASINGS } from './transition';
+
+export type ThemeId = string;
+
+// A named look for the whole experience. Fields left out fall back to the
+// scene config, so the classic theme shows the config exactly as designed.
+export interface Theme {
+  id: ThemeId;
+  label: string;
+  // Foliage gradient, in shader space (no color management applied)
+  foliage: { core: string; rim: string };
+  star?: string;
+  ornaments?: string[];  // Per ornament group, in config order; repeats if shorter
+  lights?: string[];     // Per light, in config order; repeats if shorter
+  background: string;    // Page / canvas backdrop
+  accent: string;        // UI highlights (titles, buttons, loader)
+}
+
+export const THEMES: Theme[] = [
+  {
+    id: 'classic',
+    label: 'Classic Emerald',
+    foliage: { core: '#006626', rim: '#FFCC33' },
+    background: '#021a0f',
+    accent: '#D4AF37'
+  },
+  {
+    id: 'silver',
+    label: 'Winter Silver',
+    foliage: { core: '#40526A', rim: '#E6F2FF' },
+    star: '#E8F4FF',
+    ornaments: ['#C0C0C0', '#8FA8C0', '#E8EEF4', '#FFFFFF', '#DDEEFF', '#A9B8C8', '#F5F5F5', '#7B8FA6'],
+    lights: ['#0A1420', '#F0F6FF', '#6688AA'],
+    background: '#0B1118',
+    accent: '#C9D6E3'
+  },
+  {
+    id: 'candy',
+    label: 'Candy Cane',
+    foliage: { core: '#80050D', rim: '#FFF2F2' },
+    star: '#FFF0F0',
+    ornaments: ['#D0021B', '#FFFFFF', '#FF4D6D', '#F5F5F5', '#FFE3E8', '#B00020', '#FFFFFF', '#C8102E'],
+    lights: ['#1A0004', '#FFF0F0', '#AA1030'],
+    background: '#1A0508',
+    accent: '#FF4D6D'
+  },
+  {
+    id: 'midnight',
+    label: 'Midnight Blue',
+    foliage: { core: '#05145A', rim: '#99CCFF' },
+    star: '#BFD9FF',
+    ornaments: ['#1E3A8A', '#3B82F6', '#FFD700', '#C0D8FF', '#E0E7FF', '#1D4ED8', '#60A5FA', '#93C5FD'],
+    lights: ['#000814', '#CCE0FF', '#1E3A8A'],
+    background: '#020617',
+    accent: '#93C5FD'
+  }
+];
+
+export const DEFAULT_THEME: ThemeId = 'classic';
+
+export const getTheme = (id: ThemeId): Theme => {
+  const theme = THEMES.find((t) => t.id === id);
+  if (!theme) throw new Error(`Unknown theme "${id}"`);
+  return theme;
+};
+
+export const isThemeId = (id: string): boolean => THEMES.some((t) => t.id === id);
+
+// Optional ?theme=<id>
+export const getUrlTheme = (): ThemeId => {
+  const id = new URLSearchParams(window.location.search).get('theme');
+  return id && isThemeId(id) ? id : DEFAULT_THEME;
+};
+
+// --- Palette ---
+
+// Every color a theme touches, resolved against a scene config
+export interface ThemePalette {
+  foliageCore: THREE.Color;
+  foliageRim: THREE.Color;
+  star: THREE.Color;
+  ornaments: THREE.Color[];
+  lights: THREE.Color[];
+  background: THREE.Color;
+  accent: THREE.Color;
+}
+
+const pick = (list: string[] | undefined, i: number, fallback: string) => {
+  return list && list.length > 0 ? list[i % list.length] : fallback;
+};
+
+export const resolveThemePalette = (theme: Theme, config: SceneConfig): ThemePalette => ({
+  foliageCore: new THREE.Color().setStyle(theme.foliage.core, THREE.LinearSRGBColorSpace),
+  foliageRim: new THREE.Color().setStyle(theme.foliage.rim, THREE.LinearSRGBColorSpace),
+  star: new THREE.Color(theme.star ?? config.star.color),
+  ornaments: config.ornaments.map((group, i) => new THREE.Color(pick(theme.ornaments, i, group.color))),
+  lights: config.lights.map((light, i) => new THREE.Color(pick(theme.lights, i, light.color))),
+  background: new THREE.Color(theme.background),
+  accent: new THREE.Color(theme.accent)
+});
+
+const clonePalette = (p: ThemePalette): ThemePalette => ({
+  foliageCore: p.foliageCore.clone(),
+  foliageRim: p.foliageRim.clone(),
+  star: p.star.clone(),
+  ornaments: p.ornaments.map((c) => c.clone()),
+  lights: p.lights.map((c) => c.clone()),
+  background: p.background.clone(),
+  accent: p.accent.clone()
+});
+
+// out = a -> b at t. Lists of different lengths (config changed) just take b.
+const lerpPalette = (out: ThemePalette, a: ThemePalette, b: ThemePalette, t: number) => {
+  out.foliageCore.lerpColors(a.foliageCore, b.foliageCore, t);
+  out.foliageRim.lerpColors(a.foliageRim, b.foliageRim, t);
+  out.star.lerpColors(a.star, b.star, t);
+  out.background.lerpColors(a.background, b.background, t);
+  out.accent.lerpColors(a.accent, b.accent, t);
+  (['ornaments', 'lights'] as const).forEach((key) => {
+    const from = a[key].length === b[key].length ? a[key] : b[key];
+    out[key] = b[key].map((c, i) => (out[key][i] ?? new THREE.Color()).lerpColors(from[i], c, t));
+  });
+};
+
+// --- Controller ---
+
+type Listener = (palette: ThemePalette) => void;
+
+export interface ThemeController {
+  readonly theme: Theme;          // Theme being faded to
+  readonly palette: ThemePalette; // Current (blended) colors; read every frame
+  readonly isFading: boolean;
+
+  set: (id: ThemeId) => void;
+  setConfig: (config: SceneConfig) => void;
+  update: (delta: number) => void;
+
+  onThemeChange: (listener: Listener) => () => void;
+  onPaletteChange: (listener: Listener) => () => void; // Every frame while fading
+}
+
+// Owns the active theme and cross-fades every color to a new one. Ticked
+// alongside the transition controller; 3D layers read `palette` in useFrame.
+export const createThemeController = (
+  initial: ThemeId,
+  config: SceneConfig,
+  duration = 1.5
+): ThemeController => {
+  const themeListeners = new Set<Listener>();
+  const paletteListeners = new Set<Listener>();
+
+  let theme = getTheme(initial);
+  let sceneConfig = config;
+  let from = resolveThemePalette(theme, sceneConfig);
+  let to = from;
+  const palette = clonePalette(from);
+  let linear = 1;
+
+  const subscribe = (listeners: Set<Listener>) => (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  // Start fading from whatever is on screen now
+  const retarget = () => {
+    from = clonePalette(palette);
+    to = resolveThemePalette(theme, sceneConfig);
+    linear = 0;
+  };
+
+  const controller: ThemeController = {
+    get theme() { return theme; },
+    get palette() { return palette; },
+    get isFading() { return linear < 1; },
+
+    set: (id) => {
+      if (id === theme.id) return;
+      theme = getTheme(id);
+      retarget();
+      themeListeners.forEach((listener) => listener(palette));
+    },
+
+    setConfig: (next) => {
+      if (next === sceneConfig) return;
+      sceneConfig = next;
+      retarget();
+    },
+
+    update: (delta) => {
+      if (linear >= 1) return;
+      linear = duration > 0 ? Math.min(1, linear + delta / duration) : 1;
+      lerpPalette(palette, from, to, EASINGS.easeInOutCubic(linear));
+      paletteListeners.forEach((listener) => listener(palette));
+    },
+
+    onThemeChange: subscribe(themeListeners),
+    onPaletteChange: subscribe(paletteListeners)
+  };
+
+  return controller;
+};
+
+// Mirrors the UI colors into CSS variables used by the Tailwind `arix-*`
+// colors, as space-separated sRGB channels
+export const applyThemeToDocument = (palette: ThemePalette) => {
+  const channels = (color: THREE.Color) => {
+    const { r, g, b } = color.getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+    return [r, g, b].map((v) => Math.round(v * 255)).join(' ');
+  };
+  const root = document.documentElement.style;
+  root.setProperty('--arix-gold', channels(palette.accent));
+  root.setProperty('--arix-dark', channels(palette.background));
+};
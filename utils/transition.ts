@@ -0,0 +1,186 @@
+import { FormationId, INTRO_FORMATION, getFormation } from './formations';
+import { Choreography } from './choreography';
+
+export type Easing = (t: number) => number;
+
+export const EASINGS = {
+  linear: ((t) => t) as Easing,
+  easeOutCubic: ((t) => 1 - Math.pow(1 - t, 3)) as Easing,
+  easeInOutCubic: ((t) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2) as Easing,
+  easeOutExpo: ((t) => t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)) as Easing
+};
+
+export interface TransitionTiming {
+  duration: number; // Seconds
+  easing: Easing;
+}
+
+export interface TransitionOptions {
+  gather: TransitionTiming;  // Into an assembled formation: slow and elegant
+  release: TransitionTiming; // Into a released formation: fast "whoosh"
+  burstStrength: number;     // Spin multiplier right after a release
+  burstDuration: number;     // Seconds the burst lasts
+  choreography: Choreography; // Arrival order when assembling
+}
+
+export const DEFAULT_TRANSITION_OPTIONS: TransitionOptions = {
+  gather: { duration: 3.5, easing: EASINGS.easeInOutCubic },
+  release: { duration: 2.0, easing: EASINGS.easeOutCubic },
+  burstStrength: 2.0,
+  burstDuration: 3.0,
+  choreography: 'uniform'
+};
+
+export interface TransitionEvent {
+  from: FormationId;
+  to: FormationId;
+  progress: number; // Eased, 0 -> 1
+  gather: number;   // 0 = fully released, 1 = fully assembled
+}
+
+type Listener = (event: TransitionEvent) => void;
+
+export interface TransitionController {
+  readonly from: FormationId;   // Formation the current transition left
+  readonly to: FormationId;     // Formation being morphed into
+  readonly progress: number;    // Eased progress of the current transition
+  readonly gather: number;
+  readonly burst: number;       // Spin multiplier, 1 outside of a burst
+  readonly isBursting: boolean;
+  readonly isActive: boolean;
+  readonly isHeld: boolean;     // Paused part-way by hold(), waiting for resume()
+  readonly remaining: number;   // Seconds left of the current transition at its own pace
+  readonly choreography: Choreography; // In effect for the current transition
+  readonly version: number;     // Bumped on every start(), for per-frame change checks
+  options: TransitionOptions;
+
+  start: (to: FormationId) => void;
+  // Moves toward `to` only as far as `amount` (0 -> 1 of the transition) and
+  // waits there; call again to move the hold, resume() to play the rest
+  hold: (to: FormationId, amount: number) => void;
+  resume: () => void;
+  update: (delta: number) => void;
+
+  onTransitionStart: (listener: Listener) => () => void;
+  onProgress: (listener: Listener) => () => void;
+  onTransitionEnd: (listener: Listener) => () => void;
+}
+
+const gatherOf = (id: FormationId) => getFormation(id).released ? 0 : 1;
+
+// Single owner of transition progress, easing and burst state. Everything
+// that animates with a state change reads from here instead of damping its
+// own copy, and anything else (UI, audio, host pages) can subscribe.
+export const createTransitionController = (
+  initial: FormationId,
+  options: TransitionOptions = DEFAULT_TRANSITION_OPTIONS
+): TransitionController => {
+  const startListeners = new Set<Listener>();
+  const progressListeners = new Set<Listener>();
+  const endListeners = new Set<Listener>();
+
+  let from: FormationId = INTRO_FORMATION;
+  let to: FormationId = initial;
+  let linear = 0;
+  let progress = 0;
+  let fromGather = gatherOf(from);
+  let gather = fromGather;
+  let burstLeft = 0;
+  let active = from !== to;
+  let held = false;
+  let version = 0;
+
+  const event = (): TransitionEvent => ({ from, to, progress, gather });
+  const emit = (listeners: Set<Listener>) => {
+    if (listeners.size === 0) return;
+    const e = event();
+    listeners.forEach((listener) => listener(e));
+  };
+  const subscribe = (listeners: Set<Listener>) => (listener: Listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+  const timing = () => getFormation(to).released ? controller.options.release : controller.options.gather;
+
+  const begin = (next: FormationId) => {
+    getFormation(next); // Throws early on unknown formations
+
+    // The new transition begins from wherever the current one got to
+    from = to;
+    to = next;
+    fromGather = gather;
+    linear = 0;
+    progress = 0;
+    active = true;
+    version++;
+    burstLeft = getFormation(next).released ? controller.options.burstDuration : 0;
+  };
+
+  const apply = () => {
+    progress = timing().easing(linear);
+    gather = fromGather + (gatherOf(to) - fromGather) * progress;
+    emit(progressListeners);
+  };
+
+  const controller: TransitionController = {
+    get from() { return from; },
+    get to() { return to; },
+    get progress() { return progress; },
+    get gather() { return gather; },
+    get burst() { return burstLeft > 0 ? controller.options.burstStrength : 1; },
+    get isBursting() { return burstLeft > 0; },
+    get isActive() { return active; },
+    get isHeld() { return held; },
+    get remaining() { return active ? (1 - linear) * timing().duration : 0; },
+    // Releases always leave together; choreography is for the arrival
+    get choreography() { return getFormation(to).released ? 'uniform' : controller.options.choreography; },
+    get version() { return version; },
+    options: { ...options },
+
+    start: (next) => {
+      if (next === to) return;
+      held = false;
+      begin(next);
+      emit(startListeners);
+    },
+
+    // Listeners hear the start once when the hold begins (with isHeld set)
+    // and again on resume()
+    hold: (next, amount) => {
+      held = true;
+      if (next !== to) {
+        begin(next);
+        emit(startListeners);
+      }
+      active = true;
+      linear = Math.min(1, Math.max(0, amount));
+      apply();
+    },
+
+    resume: () => {
+      if (!held) return;
+      held = false;
+      emit(startListeners);
+    },
+
+    update: (delta) => {
+      if (burstLeft > 0) burstLeft = Math.max(0, burstLeft - delta);
+      if (!active || held) return;
+
+      const { duration } = timing();
+      linear = duration > 0 ? Math.min(1, linear + delta / duration) : 1;
+      apply();
+
+      if (linear >= 1) {
+        active = false;
+        emit(endListeners);
+      }
+    },
+
+    onTransitionStart: subscribe(startListeners),
+    onProgress: subscribe(progressListeners),
+    onTransitionEnd: subscribe(endListeners)
+  };
+
+  return controller;
+};
@@ -0,0 +1,115 @@
+// Minimal WebM muxer for one video track of WebCodecs chunks. Everything is
+// held in memory and written once at the end, so every size is known up front.
+
+type Part = Uint8Array;
+
+const concat = (parts: Part[]): Part => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach((p) => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const idBytes = (id: number): Part => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return Uint8Array.from(bytes);
+};
+
+// Element sizes always use the 8-byte form; a few wasted bytes, no guessing
+const sizeBytes = (size: number): Part => {
+  const bytes = [0x01];
+  for (let i = 6; i >= 0; i--) bytes.push(Math.floor(size / Math.pow(256, i)) & 0xff);
+  return Uint8Array.from(bytes);
+};
+
+const element = (id: number, ...children: Part[]): Part => {
+  const body = concat(children);
+  return concat([idBytes(id), sizeBytes(body.length), body]);
+};
+
+const uint = (id: number, value: number): Part => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return element(id, Uint8Array.from(bytes));
+};
+
+const float = (id: number, value: number): Part => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const string = (id: number, value: string): Part => element(id, new TextEncoder().encode(value));
+
+export interface WebmChunk {
+  data: Uint8Array;
+  timestamp: number; // Milliseconds
+  key: boolean;
+}
+
+export interface WebmTrack {
+  codec: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+  duration: number; // Milliseconds
+}
+
+// Blocks store their time as a signed 16-bit offset from the cluster
+const MAX_CLUSTER_SPAN = 30000;
+
+export const muxWebm = (track: WebmTrack, chunks: WebmChunk[]): Blob => {
+  const header = element(0x1a45dfa3,
+    uint(0x4286, 1),      // EBMLVersion
+    uint(0x42f7, 1),      // EBMLReadVersion
+    uint(0x42f2, 4),      // EBMLMaxIDLength
+    uint(0x42f3, 8),      // EBMLMaxSizeLength
+    string(0x4282, 'webm'),
+    uint(0x4287, 2),      // DocTypeVersion
+    uint(0x4285, 2)       // DocTypeReadVersion
+  );
+
+  const info = element(0x1549a966,
+    uint(0x2ad7b1, 1000000), // Timestamps in milliseconds
+    string(0x4d80, 'arix-tree'),
+    string(0x5741, 'arix-tree'),
+    float(0x4489, track.duration)
+  );
+
+  const tracks = element(0x1654ae6b,
+    element(0xae,
+      uint(0xd7, 1),         // TrackNumber
+      uint(0x73c5, 1),       // TrackUID
+      uint(0x9c, 0),         // No lacing
+      string(0x86, track.codec),
+      uint(0x83, 1),         // Video
+      element(0xe0, uint(0xb0, track.width), uint(0xba, track.height))
+    )
+  );
+
+  // A new cluster on every keyframe (or when offsets would overflow)
+  const clusters: Part[] = [];
+  let blocks: Part[] = [];
+  let clusterTime = 0;
+  const closeCluster = () => {
+    if (blocks.length > 0) clusters.push(element(0x1f43b675, uint(0xe7, clusterTime), ...blocks));
+    blocks = [];
+  };
+  chunks.forEach((chunk) => {
+    const time = Math.round(chunk.timestamp);
+    if (blocks.length === 0 || chunk.key || time - clusterTime > MAX_CLUSTER_SPAN) {
+      closeCluster();
+      clusterTime = time;
+    }
+    const offset = time - clusterTime;
+    const blockHeader = Uint8Array.from([0x81, (offset >> 8) & 0xff, offset & 0xff, chunk.key ? 0x80 : 0]);
+    blocks.push(element(0xa3, blockHeader, chunk.data));
+  });
+  closeCluster();
+
+  const segment = element(0x18538067, info, tracks, ...clusters);
+  return new Blob([header, segment], { type: 'video/webm' });
+};